@@ -3,16 +3,30 @@ import json from '@rollup/plugin-json';
 import nodeResolve from '@rollup/plugin-node-resolve';
 import typescript from '@rollup/plugin-typescript';
 
-const config = {
-  input: 'src/index.ts',
-  output: {
-    esModule: true,
-    file: 'dist/index.js',
-    format: 'es',
-    sourcemap: true,
-    inlineDynamicImports: true,
+const config = [
+  {
+    input: 'src/index.ts',
+    output: {
+      esModule: true,
+      file: 'dist/index.js',
+      format: 'es',
+      sourcemap: true,
+      inlineDynamicImports: true,
+    },
+    plugins: [typescript(), json(), nodeResolve({ preferBuiltins: true }), commonjs()]
   },
-  plugins: [typescript(), json(), nodeResolve({ preferBuiltins: true }), commonjs()]
-};
+  {
+    input: 'src/bin.ts',
+    output: {
+      esModule: true,
+      file: 'dist/cli.js',
+      format: 'es',
+      sourcemap: true,
+      inlineDynamicImports: true,
+      banner: '#!/usr/bin/env node',
+    },
+    plugins: [typescript(), json(), nodeResolve({ preferBuiltins: true }), commonjs()]
+  }
+];
 
 export default config
\ No newline at end of file
@@ -0,0 +1,38 @@
+import * as core from '@actions/core';
+
+import { Frontend } from './frontend';
+import { describeKeyFailure, keyFailures, reportTable } from './report';
+
+/** Run as a GitHub action, reading the action inputs and writing outputs and a job summary. */
+export const actionFrontend: Frontend = {
+  getInput: (name) => core.getInput(name),
+  debug: (message) => core.debug(message),
+  info: (message) => core.info(message),
+  warning: (message) => core.warning(message),
+  error: (message) => core.error(message),
+  setOutput: (name, value) => core.setOutput(name, value),
+  writeSummary: async (reports, failures) => {
+    if (!process.env.GITHUB_STEP_SUMMARY) {
+      return;
+    }
+    for (const report of reports) {
+      const [ header, ...rows ] = reportTable(report);
+      core.summary
+        .addHeading(`Cleanup of ${report.folder}${report.dryRun ? ' (dry run)' : ''}`)
+        .addTable([ header.map((data) => ({ data, header: true })), ...rows ]);
+    }
+    if (failures.length > 0) {
+      core.summary
+        .addHeading('Failed folders')
+        .addList(failures.map((f) => `${f.folder}: ${f.message}`));
+    }
+    const failedKeys = keyFailures(reports);
+    if (failedKeys.length > 0) {
+      core.summary
+        .addHeading('Failed keys')
+        .addList(failedKeys.map(describeKeyFailure));
+    }
+    await core.summary.write();
+  },
+  setFailed: (message) => core.setFailed(message)
+};
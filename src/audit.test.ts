@@ -0,0 +1,79 @@
+import { expect, test, describe } from '@jest/globals';
+import { appendRecord, auditRecord, runContext } from './audit';
+import { CleanupReport } from './report';
+
+const run = runContext({
+  GITHUB_RUN_ID: '1234',
+  GITHUB_RUN_ATTEMPT: '2',
+  GITHUB_REPOSITORY: 'tinymce/tinymce-docs',
+  GITHUB_WORKFLOW: 'Cleanup',
+  GITHUB_ACTOR: 'octocat'
+});
+
+const report: CleanupReport = {
+  folder: 'pr-123',
+  currentVersion: 'run-13-2',
+  dryRun: false,
+  versions: [
+    { version: 'run-12-3', prefix: 'pr-123/run-12-3/', status: 'old' },
+    { version: 'run-13-1', prefix: 'pr-123/run-13-1/', status: 'tagged', objects: 5, bytes: 19 },
+    { version: 'run-13-2', prefix: 'pr-123/run-13-2/', status: 'current' }
+  ]
+};
+
+const startedAt = new Date('2026-10-19T12:00:00.000Z');
+const finishedAt = new Date('2026-10-19T12:00:01.500Z');
+
+describe('runContext', () => {
+  test('is empty outside of GitHub Actions', () => {
+    expect(runContext({})).toEqual({ id: '', attempt: '', repository: '', workflow: '', actor: '' });
+  });
+});
+
+describe('auditRecord', () => {
+  test('records the prefixes changed and the duration', () => {
+    expect(auditRecord(run, 'tag-old', 'pr-123', { report }, startedAt, finishedAt)).toEqual({
+      time: '2026-10-19T12:00:01.500Z',
+      run: { id: '1234', attempt: '2', repository: 'tinymce/tinymce-docs', workflow: 'Cleanup', actor: 'octocat' },
+      mode: 'tag-old',
+      folder: 'pr-123',
+      currentVersion: 'run-13-2',
+      tagged: [{ prefix: 'pr-123/run-13-1/', objects: 5, bytes: 19 }],
+      restored: [],
+      durationMs: 1500,
+      errors: []
+    });
+  });
+
+  test('records the error of a failed folder', () => {
+    const failure = { folder: 'pr-124', message: 'No current version pointer found for pr-124' };
+    const record = auditRecord(run, 'tag-old', 'pr-124', { failure }, startedAt, finishedAt);
+    expect(record.currentVersion).toBe('');
+    expect(record.tagged).toEqual([]);
+    expect(record.errors).toEqual([ 'No current version pointer found for pr-124' ]);
+  });
+
+  test('records the keys that failed', () => {
+    const failures = [{ key: 'pr-123/run-13-1/secret.txt', name: 'AccessDenied', message: 'Access Denied' }];
+    const failed: CleanupReport = { ...report, versions: report.versions.map((v) => v.status === 'tagged' ? { ...v, failures } : v) };
+    const record = auditRecord(run, 'tag-old', 'pr-123', { report: failed }, startedAt, finishedAt);
+    expect(record.errors).toEqual([ 'pr-123/run-13-1/secret.txt: AccessDenied: Access Denied' ]);
+  });
+});
+
+describe('appendRecord', () => {
+  const record = auditRecord(run, 'tag-old', 'pr-123', { report }, startedAt, finishedAt);
+
+  test('adds one line per record', () => {
+    const ledger = appendRecord(appendRecord('', record), record);
+    const lines = ledger.split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(JSON.parse(lines[0])).toEqual(record);
+    expect(JSON.parse(lines[1])).toEqual(record);
+  });
+
+  test('starts a new line when the ledger does not end with one', () => {
+    expect(appendRecord('{}', record).split('\n')[1]).toBe(JSON.stringify(record));
+  });
+});
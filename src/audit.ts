@@ -0,0 +1,72 @@
+import { CleanupReport, describeKeyFailure, FolderFailure, keyFailures } from './report';
+
+/** The workflow run that made a change, empty when run from the command line. */
+export interface RunContext {
+  id: string;
+  attempt: string;
+  repository: string;
+  workflow: string;
+  actor: string;
+}
+
+export interface AuditPrefix {
+  prefix: string;
+  objects: number;
+  bytes: number;
+}
+
+/** One line of the audit ledger, recording what a run did to a folder. */
+export interface AuditRecord {
+  time: string;
+  run: RunContext;
+  mode: string;
+  folder: string;
+  currentVersion: string;
+  tagged: AuditPrefix[];
+  restored: AuditPrefix[];
+  durationMs: number;
+  errors: string[];
+}
+
+/** Get the workflow run from the environment variables that GitHub Actions sets. */
+export const runContext = (env: Record<string, string | undefined>): RunContext => ({
+  id: env.GITHUB_RUN_ID ?? '',
+  attempt: env.GITHUB_RUN_ATTEMPT ?? '',
+  repository: env.GITHUB_REPOSITORY ?? '',
+  workflow: env.GITHUB_WORKFLOW ?? '',
+  actor: env.GITHUB_ACTOR ?? ''
+});
+
+const auditPrefixes = (report: CleanupReport | undefined, status: 'tagged' | 'restored'): AuditPrefix[] =>
+  (report?.versions ?? [])
+    .filter((v) => v.status === status)
+    .map((v) => ({ prefix: v.prefix, objects: v.objects ?? 0, bytes: v.bytes ?? 0 }));
+
+/** Build the record of cleaning up a folder, from its report or failure. */
+export const auditRecord = (
+  run: RunContext,
+  mode: string,
+  folder: string,
+  result: { report?: CleanupReport; failure?: FolderFailure },
+  startedAt: Date,
+  finishedAt: Date,
+): AuditRecord => ({
+  time: finishedAt.toISOString(),
+  run,
+  mode,
+  folder,
+  currentVersion: result.report?.currentVersion ?? '',
+  tagged: auditPrefixes(result.report, 'tagged'),
+  restored: auditPrefixes(result.report, 'restored'),
+  durationMs: finishedAt.getTime() - startedAt.getTime(),
+  errors: [
+    ...result.failure ? [ result.failure.message ] : [],
+    ...keyFailures(result.report ? [ result.report ] : []).map(describeKeyFailure)
+  ]
+});
+
+/** Append a record to the JSON lines of a ledger. */
+export const appendRecord = (ledger: string, record: AuditRecord) => {
+  const separator = ledger === '' || ledger.endsWith('\n') ? '' : '\n';
+  return `${ledger}${separator}${JSON.stringify(record)}\n`;
+};
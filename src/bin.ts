@@ -0,0 +1,14 @@
+import { cliFrontend, cliUsage, parseCliArgs } from './cli.js';
+import { run } from './main.js';
+
+try {
+  const args = parseCliArgs(process.argv.slice(2));
+  if (args.help) {
+    process.stdout.write(cliUsage());
+  } else {
+    run(cliFrontend(args, process.stdout, process.stderr));
+  }
+} catch (err) {
+  process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${cliUsage()}`);
+  process.exitCode = 2;
+}
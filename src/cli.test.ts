@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { PassThrough } from 'node:stream';
+import { expect, test, describe } from '@jest/globals';
+import { CLI_INPUTS, cliFrontend, formatTable, parseCliArgs } from './cli';
+
+const read = (stream: PassThrough) => stream.read()?.toString() ?? '';
+
+describe('CLI_INPUTS', () => {
+  test('matches the inputs and defaults of action.yml', () => {
+    const yaml = readFileSync('action.yml', 'utf-8');
+    const inputs = yaml.slice(yaml.indexOf('\ninputs:'), yaml.indexOf('\noutputs:'));
+    const defaults: Record<string, string | undefined> = {};
+    let name = '';
+    for (const line of inputs.split('\n')) {
+      const input = /^ {2}([a-z-]+):$/.exec(line);
+      const value = /^ {4}default: '?(.*?)'?$/.exec(line);
+      if (input) {
+        name = input[1];
+        defaults[name] = undefined;
+      } else if (value) {
+        defaults[name] = value[1];
+      }
+    }
+    expect(Object.fromEntries(Object.entries(CLI_INPUTS).map(([ n, input ]) => [ n, input.default ]))).toEqual(defaults);
+  });
+});
+
+describe('parseCliArgs', () => {
+  test('fills in the defaults', () => {
+    const args = parseCliArgs([ '--bucket', 'docs', '--folder', 'pr-123' ]);
+    expect(args.inputs.bucket).toBe('docs');
+    expect(args.inputs.folder).toBe('pr-123');
+    expect(args.inputs.parallel).toBe('5');
+    expect(args.inputs['dry-run']).toBe('false');
+    expect(args.inputs.version).toBe('');
+    expect(args.verbose).toBe(false);
+    expect(args.help).toBe(false);
+  });
+
+  test('takes flags without a value', () => {
+    const args = parseCliArgs([ '--dry-run', '--parallel=10', '-v' ]);
+    expect(args.inputs['dry-run']).toBe('true');
+    expect(args.inputs.verify).toBe('false');
+    expect(args.inputs.parallel).toBe('10');
+    expect(args.verbose).toBe(true);
+  });
+
+  test('throws on unknown options', () => {
+    expect(() => parseCliArgs([ '--buckett', 'docs' ])).toThrow();
+    expect(() => parseCliArgs([ 'docs' ])).toThrow();
+  });
+});
+
+describe('formatTable', () => {
+  test('aligns the columns', () => {
+    expect(formatTable([
+      [ 'Version', 'Status' ],
+      [ 'run-12-3', 'Old' ],
+      [ 'run-1-1', 'Current' ]
+    ])).toBe([
+      'Version   Status',
+      '--------  -------',
+      'run-12-3  Old',
+      'run-1-1   Current'
+    ].join('\n'));
+  });
+});
+
+describe('cliFrontend', () => {
+  test('writes outputs to stdout and logs to stderr', () => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const frontend = cliFrontend(parseCliArgs([ '--bucket', 'docs' ]), stdout, stderr);
+    expect(frontend.getInput('bucket')).toBe('docs');
+    frontend.setOutput('tagged', [ 'pr-123/run-12-3/' ]);
+    frontend.setOutput('current-version', 'run-13-2');
+    frontend.info('Tagging pr-123/run-12-3/ as old');
+    frontend.debug('hidden without --verbose');
+    frontend.warning('Throttled');
+    expect(read(stdout)).toBe('tagged=["pr-123/run-12-3/"]\ncurrent-version=run-13-2\n');
+    expect(read(stderr)).toBe('Tagging pr-123/run-12-3/ as old\nwarning: Throttled\n');
+  });
+});
@@ -0,0 +1,140 @@
+import { parseArgs, ParseArgsConfig } from 'node:util';
+
+import { Frontend } from './frontend';
+import { describeKeyFailure, keyFailures, reportTable } from './report';
+
+interface CliInput {
+  default?: string;
+  /** A flag that takes no value, such as --dry-run. */
+  flag?: boolean;
+}
+
+/** The inputs of action.yml, which the command line takes as --name value options with the same defaults. */
+export const CLI_INPUTS: Record<string, CliInput> = {
+  'bucket': {},
+  'folder': {},
+  'folders': {},
+  'mode': { default: 'tag-old' },
+  'version': {},
+  'version-scheme': { default: 'run-attempt' },
+  'version-pattern': {},
+  'pointer-source': { default: 'metadata' },
+  'pointer-key': {},
+  'pointer-field': { default: 'version' },
+  'current-version': {},
+  'alias-keys': {},
+  'protected-versions': {},
+  'protected-folders': { default: 'main' },
+  'audit-key': { default: '.cleanup/log.jsonl' },
+  'lock': { default: 'true' },
+  'lock-ttl': { default: '300' },
+  'lock-wait': { default: '0' },
+  'lock-held': { default: 'skip' },
+  'storage-report': { default: 'false', flag: true },
+  'largest-files': { default: '10' },
+  'parallel': { default: '5' },
+  'max-requests-per-second': { default: '0' },
+  'part-size': { default: '512' },
+  'max-retries': { default: '5' },
+  'tag-key': { default: 'old' },
+  'tag-value': { default: 'true' },
+  'lifecycle-check': { default: 'warn' },
+  'install-lifecycle-rule': { default: 'false', flag: true },
+  'lifecycle-expiration-days': { default: '30' },
+  'noncurrent-versions': { default: 'tag' },
+  'redirect-old': { default: 'false', flag: true },
+  'verify': { default: 'false', flag: true },
+  'dry-run': { default: 'false', flag: true },
+  'continue-on-error': { default: 'false', flag: true },
+  'max-failures': { default: '0' },
+  'keep-count': { default: '0' },
+  'keep-days': { default: '0' },
+  'grace-period': { default: '0' },
+};
+
+export interface CliArgs {
+  inputs: Record<string, string>;
+  verbose: boolean;
+  help: boolean;
+}
+
+/** Parse the command line arguments, throwing on unknown options. */
+export const parseCliArgs = (args: string[]): CliArgs => {
+  const options: ParseArgsConfig['options'] = {
+    ...Object.fromEntries(Object.entries(CLI_INPUTS).map(([ name, input ]) => [ name, { type: input.flag ? 'boolean' : 'string' }])),
+    verbose: { type: 'boolean', short: 'v' },
+    help: { type: 'boolean', short: 'h' }
+  };
+  const { values } = parseArgs({ args, options });
+  const inputs = Object.fromEntries(Object.entries(CLI_INPUTS).map(([ name, input ]) => {
+    const value = values[name];
+    return [ name, value === undefined ? input.default ?? '' : String(value) ];
+  }));
+  return { inputs, verbose: values.verbose === true, help: values.help === true };
+};
+
+/** The usage message for --help. */
+export const cliUsage = () => [
+  'Usage: tinymce-docs-cleanup --bucket <bucket> (--folder <folder> | --folders <patterns>) [options]',
+  '',
+  'Options match the inputs of the action, see the README for what each does.',
+  '',
+  ...Object.entries(CLI_INPUTS).map(([ name, input ]) => {
+    const option = input.flag ? `--${name}` : `--${name} <value>`;
+    return `  ${option.padEnd(30)}${input.default !== undefined && !input.flag ? `default: ${input.default}` : ''}`.trimEnd();
+  }),
+  `  ${'-v, --verbose'.padEnd(30)}log debug messages`,
+  `  ${'-h, --help'.padEnd(30)}show this message`,
+  ''
+].join('\n');
+
+/** Format rows as a plain text table with aligned columns, the first row is the header. */
+export const formatTable = (rows: string[][]) => {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [
+    format(rows[0]),
+    widths.map((w) => '-'.repeat(w)).join('  '),
+    ...rows.slice(1).map(format)
+  ].join('\n');
+};
+
+/**
+ * Run from the command line. Logs and the summary go to stderr and the outputs
+ * go to stdout as name=value lines, so that scripts can read the results.
+ */
+export const cliFrontend = (args: CliArgs, stdout: NodeJS.WritableStream, stderr: NodeJS.WritableStream): Frontend => {
+  const log = (message: string) => {
+    stderr.write(`${message}\n`);
+  };
+  return {
+    getInput: (name) => args.inputs[name] ?? '',
+    debug: (message) => {
+      if (args.verbose) {
+        log(`debug: ${message}`);
+      }
+    },
+    info: log,
+    warning: (message) => log(`warning: ${message}`),
+    error: (message) => log(`error: ${message}`),
+    setOutput: (name, value) => {
+      stdout.write(`${name}=${typeof value === 'string' ? value : JSON.stringify(value)}\n`);
+    },
+    writeSummary: async (reports, failures) => {
+      for (const report of reports) {
+        log(`\nCleanup of ${report.folder}${report.dryRun ? ' (dry run)' : ''}\n\n${formatTable(reportTable(report))}`);
+      }
+      if (failures.length > 0) {
+        log(`\nFailed folders\n\n${failures.map((f) => `- ${f.folder}: ${f.message}`).join('\n')}`);
+      }
+      const failedKeys = keyFailures(reports);
+      if (failedKeys.length > 0) {
+        log(`\nFailed keys\n\n${failedKeys.map((f) => `- ${describeKeyFailure(f)}`).join('\n')}`);
+      }
+    },
+    setFailed: (message) => {
+      log(`error: ${message instanceof Error ? message.message : message}`);
+      process.exitCode = 1;
+    }
+  };
+};
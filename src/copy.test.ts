@@ -0,0 +1,166 @@
+import { expect, test, describe } from '@jest/globals';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { aclGrants, copiedProperties, copyInPlace } from './copy';
+import { MAX_COPY_OBJECT_SIZE, MAX_PART_SIZE } from './multipart';
+
+const OWNER = { ID: 'owner-id' };
+const ALL_USERS = 'http://acs.amazonaws.com/groups/global/AllUsers';
+
+describe('aclGrants', () => {
+  test('needs no grants without an ACL', () => {
+    expect(aclGrants(undefined)).toEqual({});
+  });
+
+  test('needs no grants for the default ACL', () => {
+    expect(aclGrants({
+      Owner: OWNER,
+      Grants: [{ Grantee: { ID: 'owner-id', Type: 'CanonicalUser' }, Permission: 'FULL_CONTROL' }]
+    })).toEqual({});
+  });
+
+  test('recreates other grants', () => {
+    expect(aclGrants({
+      Owner: OWNER,
+      Grants: [
+        { Grantee: { ID: 'owner-id', Type: 'CanonicalUser' }, Permission: 'FULL_CONTROL' },
+        { Grantee: { URI: ALL_USERS, Type: 'Group' }, Permission: 'READ' },
+        { Grantee: { ID: 'other-id', Type: 'CanonicalUser' }, Permission: 'READ' },
+        { Grantee: { EmailAddress: 'docs@example.com', Type: 'AmazonCustomerByEmail' }, Permission: 'READ_ACP' }
+      ]
+    })).toEqual({
+      GrantFullControl: 'id="owner-id"',
+      GrantRead: `uri="${ALL_USERS}", id="other-id"`,
+      GrantReadACP: 'emailAddress="docs@example.com"',
+      GrantWriteACP: undefined
+    });
+  });
+});
+
+describe('copiedProperties', () => {
+  test('carries over every property', () => {
+    const expires = new Date('2030-01-01T00:00:00.000Z');
+    const retainUntil = new Date('2031-01-01T00:00:00.000Z');
+    expect(copiedProperties({
+      ContentType: 'text/html',
+      ContentEncoding: 'gzip',
+      ContentDisposition: 'inline',
+      ContentLanguage: 'en',
+      Expires: expires,
+      WebsiteRedirectLocation: '/docs/',
+      StorageClass: 'STANDARD_IA',
+      ServerSideEncryption: 'aws:kms',
+      SSEKMSKeyId: 'key-arn',
+      BucketKeyEnabled: true,
+      ObjectLockMode: 'GOVERNANCE',
+      ObjectLockRetainUntilDate: retainUntil,
+      ObjectLockLegalHoldStatus: 'OFF',
+      ContentLength: 10,
+      LastModified: new Date(),
+      Metadata: { pointer: 'run-1-1' }
+    }, undefined)).toEqual({
+      ContentType: 'text/html',
+      CacheControl: undefined,
+      ContentEncoding: 'gzip',
+      ContentDisposition: 'inline',
+      ContentLanguage: 'en',
+      Expires: expires,
+      WebsiteRedirectLocation: '/docs/',
+      StorageClass: 'STANDARD_IA',
+      ServerSideEncryption: 'aws:kms',
+      SSEKMSKeyId: 'key-arn',
+      BucketKeyEnabled: true,
+      ObjectLockMode: 'GOVERNANCE',
+      ObjectLockRetainUntilDate: retainUntil,
+      ObjectLockLegalHoldStatus: 'OFF'
+    });
+  });
+
+  test('does not add a cache control the object did not have', () => {
+    expect(copiedProperties({}, undefined).CacheControl).toBeUndefined();
+    expect(copiedProperties({ CacheControl: 'max-age=60' }, undefined).CacheControl).toBe('max-age=60');
+  });
+});
+
+describe('copyInPlace', () => {
+  type Command = CreateMultipartUploadCommand | UploadPartCopyCommand | CompleteMultipartUploadCommand | AbortMultipartUploadCommand;
+
+  /** A client that records the commands sent to it, failing those that `fail` returns an error for. */
+  const stubClient = (fail: (command: Command) => Error | undefined = () => undefined) => {
+    const sent: Command[] = [];
+    const client = {
+      send: async (command: Command) => {
+        sent.push(command);
+        const err = fail(command);
+        if (err) {
+          throw err;
+        }
+        if (command instanceof CreateMultipartUploadCommand) {
+          return { UploadId: 'upload-1' };
+        } else if (command instanceof UploadPartCopyCommand) {
+          return { CopyPartResult: { ETag: `"part-${command.input.PartNumber}"` }};
+        } else if (command instanceof CompleteMultipartUploadCommand) {
+          return { VersionId: 'version-2' };
+        }
+        return {};
+      }
+    };
+    return { client: client as unknown as S3Client, sent };
+  };
+
+  const size = MAX_COPY_OBJECT_SIZE + 1;
+  const properties = { ContentType: 'application/zip', Metadata: { 'old-at': '2026-10-19T00:00:00.000Z' }, Tagging: 'old=true' };
+
+  test('copies a large object in parts with the properties and tags', async () => {
+    const { client, sent } = stubClient();
+    expect(await copyInPlace(client, 'docs', 'pr-123/run-1-1/big file.zip', size, '"abc"', properties, MAX_PART_SIZE)).toBe('version-2');
+
+    expect(sent.map((c) => c.constructor)).toEqual([
+      CreateMultipartUploadCommand, UploadPartCopyCommand, UploadPartCopyCommand, CompleteMultipartUploadCommand
+    ]);
+    expect(sent[0].input).toEqual({ Bucket: 'docs', Key: 'pr-123/run-1-1/big file.zip', ...properties });
+    expect(sent.slice(1, 3).map((c) => c.input)).toEqual([ 1, 2 ].map((n) => ({
+      Bucket: 'docs',
+      Key: 'pr-123/run-1-1/big file.zip',
+      UploadId: 'upload-1',
+      PartNumber: n,
+      CopySource: 'docs/pr-123/run-1-1/big%20file.zip',
+      CopySourceIfMatch: '"abc"',
+      CopySourceRange: n === 1 ? `bytes=0-${MAX_PART_SIZE - 1}` : `bytes=${MAX_PART_SIZE}-${size - 1}`
+    })));
+    expect(sent[3].input).toEqual({
+      Bucket: 'docs',
+      Key: 'pr-123/run-1-1/big file.zip',
+      UploadId: 'upload-1',
+      MultipartUpload: { Parts: [{ PartNumber: 1, ETag: '"part-1"' }, { PartNumber: 2, ETag: '"part-2"' }] }
+    });
+  });
+
+  test('aborts the upload when a part fails', async () => {
+    const failure = new Error('PreconditionFailed');
+    const { client, sent } = stubClient((c) => c instanceof UploadPartCopyCommand && c.input.PartNumber === 2 ? failure : undefined);
+    await expect(copyInPlace(client, 'docs', 'big.zip', size, '"abc"', properties, MAX_PART_SIZE)).rejects.toBe(failure);
+
+    expect(sent.map((c) => c.constructor)).toEqual([
+      CreateMultipartUploadCommand, UploadPartCopyCommand, UploadPartCopyCommand, AbortMultipartUploadCommand
+    ]);
+    expect(sent[3].input).toEqual({ Bucket: 'docs', Key: 'big.zip', UploadId: 'upload-1' });
+  });
+
+  test('raises the failure of the part when the abort fails too', async () => {
+    const failure = new Error('InternalError');
+    const { client } = stubClient((c) => {
+      if (c instanceof UploadPartCopyCommand) {
+        return failure;
+      } else if (c instanceof AbortMultipartUploadCommand) {
+        return new Error('NoSuchUpload');
+      }
+    });
+    await expect(copyInPlace(client, 'docs', 'big.zip', size, '"abc"', properties, MAX_PART_SIZE)).rejects.toBe(failure);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CopyObjectCommandInput,
+  CreateMultipartUploadCommand,
+  GetObjectAclOutput,
+  Grantee,
+  HeadObjectOutput,
+  Permission,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { copyParts, needsMultipartCopy } from './multipart';
+
+/**
+ * The properties written to an object when it is copied in place, these are
+ * accepted by both CopyObject and CreateMultipartUpload. Tagging is URL encoded
+ * and there are no tags when it is undefined.
+ */
+export type CopyProperties = Pick<CopyObjectCommandInput,
+  'ContentType' | 'CacheControl' | 'ContentEncoding' | 'ContentDisposition' | 'ContentLanguage' | 'Expires' |
+  'WebsiteRedirectLocation' | 'StorageClass' | 'ServerSideEncryption' | 'SSEKMSKeyId' | 'BucketKeyEnabled' |
+  'ObjectLockMode' | 'ObjectLockRetainUntilDate' | 'ObjectLockLegalHoldStatus' |
+  'GrantFullControl' | 'GrantRead' | 'GrantReadACP' | 'GrantWriteACP' | 'Metadata' | 'Tagging'>;
+
+const granteeHeader = (grantee: Grantee | undefined) => {
+  if (grantee?.ID) {
+    return `id="${grantee.ID}"`;
+  } else if (grantee?.URI) {
+    return `uri="${grantee.URI}"`;
+  } else if (grantee?.EmailAddress) {
+    return `emailAddress="${grantee.EmailAddress}"`;
+  }
+};
+
+/**
+ * The grant headers that recreate an object's ACL on its copy. An ACL that only
+ * gives the owner full control is the default a copy gets anyway, so no headers
+ * are needed, which also keeps copies working in buckets with ACLs disabled.
+ */
+export const aclGrants = (acl: GetObjectAclOutput | undefined): CopyProperties => {
+  const grants = acl?.Grants ?? [];
+  if (grants.every((g) => g.Permission === 'FULL_CONTROL' && g.Grantee?.ID === acl?.Owner?.ID)) {
+    return {};
+  }
+  const header = (permission: Permission) => {
+    const grantees = grants.filter((g) => g.Permission === permission).map((g) => granteeHeader(g.Grantee)).filter((g) => g !== undefined);
+    return grantees.length > 0 ? grantees.join(', ') : undefined;
+  };
+  return {
+    GrantFullControl: header('FULL_CONTROL'),
+    GrantRead: header('READ'),
+    GrantReadACP: header('READ_ACP'),
+    GrantWriteACP: header('WRITE_ACP')
+  };
+};
+
+/** The properties of an object that a copy in place must carry over, other than its metadata and tags. */
+export const copiedProperties = (data: HeadObjectOutput, acl: GetObjectAclOutput | undefined): CopyProperties => {
+  return {
+    ContentType: data.ContentType,
+    CacheControl: data.CacheControl,
+    ContentEncoding: data.ContentEncoding,
+    ContentDisposition: data.ContentDisposition,
+    ContentLanguage: data.ContentLanguage,
+    Expires: data.Expires,
+    WebsiteRedirectLocation: data.WebsiteRedirectLocation,
+    StorageClass: data.StorageClass,
+    ServerSideEncryption: data.ServerSideEncryption,
+    SSEKMSKeyId: data.SSEKMSKeyId,
+    BucketKeyEnabled: data.BucketKeyEnabled,
+    ObjectLockMode: data.ObjectLockMode,
+    ObjectLockRetainUntilDate: data.ObjectLockRetainUntilDate,
+    ObjectLockLegalHoldStatus: data.ObjectLockLegalHoldStatus,
+    ...aclGrants(acl)
+  };
+};
+
+/** The CopySource of an object, with the key URL encoded. */
+export const copySource = (bucket: string, key: string) => {
+  return `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+};
+
+/**
+ * Copy an object over itself replacing its properties, which also updates its
+ * last modified date. Objects too large for CopyObject are copied in parts.
+ * Returns the version of the copy in a versioned bucket.
+ */
+export const copyInPlace = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  size: number,
+  etag: string | undefined,
+  properties: CopyProperties,
+  partSize: number,
+) => {
+  if (!needsMultipartCopy(size)) {
+    const copied = await client.send(new CopyObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      CopySource: copySource(bucket, key),
+      ...properties,
+      MetadataDirective: 'REPLACE',
+      TaggingDirective: 'REPLACE'
+    }));
+    return copied.VersionId;
+  }
+
+  const upload = await client.send(new CreateMultipartUploadCommand({
+    Bucket: bucket,
+    Key: key,
+    ...properties
+  }));
+  try {
+    const parts = [];
+    for (const part of copyParts(size, partSize)) {
+      const data = await client.send(new UploadPartCopyCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: upload.UploadId,
+        PartNumber: part.partNumber,
+        CopySource: copySource(bucket, key),
+        // fail rather than stitch together parts of two different objects
+        CopySourceIfMatch: etag,
+        CopySourceRange: part.range
+      }));
+      parts.push({ PartNumber: part.partNumber, ETag: data.CopyPartResult?.ETag });
+    }
+    const completed = await client.send(new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: upload.UploadId,
+      MultipartUpload: { Parts: parts }
+    }));
+    return completed.VersionId;
+  } catch (err) {
+    try {
+      await client.send(new AbortMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: upload.UploadId
+      }));
+    } catch {
+      // the failure of the copy is the one to raise, an upload left behind only takes up space
+    }
+    throw err;
+  }
+};
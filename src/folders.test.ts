@@ -0,0 +1,57 @@
+import { expect, test, describe } from '@jest/globals';
+import { isValidFolderPattern, matchFolders, parseFolderPatterns } from './folders';
+
+describe('parseFolderPatterns', () => {
+  test('splits on commas and newlines', () => {
+    expect(parseFolderPatterns('pr-*, main\ndocs\n')).toEqual([ 'pr-*', 'main', 'docs' ]);
+  });
+
+  test('returns nothing for an empty input', () => {
+    expect(parseFolderPatterns('')).toEqual([]);
+    expect(parseFolderPatterns(' , \n')).toEqual([]);
+  });
+});
+
+describe('isValidFolderPattern', () => {
+  test('accepts folder names and wildcards', () => {
+    expect(isValidFolderPattern('main')).toBe(true);
+    expect(isValidFolderPattern('pr-*')).toBe(true);
+    expect(isValidFolderPattern('v?.x')).toBe(true);
+    expect(isValidFolderPattern('*')).toBe(true);
+  });
+
+  test('rejects other characters', () => {
+    expect(isValidFolderPattern('')).toBe(false);
+    expect(isValidFolderPattern('pr-[0-9]')).toBe(false);
+    expect(isValidFolderPattern('docs/*')).toBe(false);
+    expect(isValidFolderPattern('PR-*')).toBe(false);
+  });
+});
+
+describe('matchFolders', () => {
+  const folders = [ 'main', 'pr-1', 'pr-12', 'pr-123', 'docs.old' ];
+
+  test('matches exact names', () => {
+    expect(matchFolders(folders, [ 'main' ])).toEqual([ 'main' ]);
+  });
+
+  test('matches wildcards', () => {
+    expect(matchFolders(folders, [ 'pr-*' ])).toEqual([ 'pr-1', 'pr-12', 'pr-123' ]);
+    expect(matchFolders(folders, [ 'pr-??' ])).toEqual([ 'pr-12' ]);
+    expect(matchFolders(folders, [ '*' ])).toEqual(folders);
+  });
+
+  test('treats dots literally', () => {
+    expect(matchFolders(folders, [ 'docs.old' ])).toEqual([ 'docs.old' ]);
+    expect(matchFolders([ 'docsxold' ], [ 'docs.old' ])).toEqual([]);
+  });
+
+  test('treats other characters literally', () => {
+    expect(matchFolders([ 'tinymce/8', 'tinymce' ], [ 'tinymce/8' ])).toEqual([ 'tinymce/8' ]);
+    expect(matchFolders([ 'a', 'aa' ], [ 'a+' ])).toEqual([]);
+  });
+
+  test('matches any of several patterns', () => {
+    expect(matchFolders(folders, [ 'main', 'pr-1' ])).toEqual([ 'main', 'pr-1' ]);
+  });
+});
@@ -0,0 +1,29 @@
+/** Split a comma or newline separated list of folder patterns. */
+export const parseFolderPatterns = (input: string) => {
+  return input.split(/[,\n]/).map((p) => p.trim()).filter((p) => p.length > 0);
+};
+
+/** Check a folder pattern only uses folder characters and the `*` and `?` wildcards. */
+export const isValidFolderPattern = (pattern: string) => {
+  return /^[a-z0-9.*?-]+$/.test(pattern);
+};
+
+const patternToRegExp = (pattern: string) => {
+  const source = pattern.replace(/[^a-z0-9]/gi, (c) => {
+    switch (c) {
+      case '*':
+        return '.*';
+      case '?':
+        return '.';
+      default:
+        return `\\${c}`;
+    }
+  });
+  return new RegExp(`^${source}$`);
+};
+
+/** Filter folders to those matching any of the patterns. */
+export const matchFolders = (folders: string[], patterns: string[]) => {
+  const regexes = patterns.map(patternToRegExp);
+  return folders.filter((f) => regexes.some((r) => r.test(f)));
+};
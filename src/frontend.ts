@@ -0,0 +1,20 @@
+import { CleanupReport, FolderFailure } from './report';
+
+export interface Inputs {
+  /** Get an input by name, or an empty string if it is not set. */
+  getInput: (name: string) => string;
+}
+
+export interface Logger {
+  debug: (message: string) => void;
+  info: (message: string) => void;
+  warning: (message: string) => void;
+  error: (message: string) => void;
+}
+
+/** Where the cleanup reads its inputs from and reports to, so that it can run as an action or from the command line. */
+export interface Frontend extends Inputs, Logger {
+  setOutput: (name: string, value: unknown) => void;
+  writeSummary: (reports: CleanupReport[], failures: FolderFailure[]) => Promise<void>;
+  setFailed: (message: string | Error) => void;
+}
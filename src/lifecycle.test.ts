@@ -0,0 +1,90 @@
+import { expect, test, describe } from '@jest/globals';
+import { LifecycleRule, LifecycleRuleAndOperator } from '@aws-sdk/client-s3';
+import { expiresNoncurrent, expiresOldTag, isLifecycleCheck, isRuleUpToDate, oldTagRule, withRule } from './lifecycle';
+
+const tag = { key: 'old', value: 'true' };
+
+const unrelated: LifecycleRule = {
+  ID: 'abort-uploads',
+  Status: 'Enabled',
+  Filter: { Prefix: '' },
+  AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 }
+};
+
+describe('isLifecycleCheck', () => {
+  test('accepts warn, fail and off', () => {
+    expect(isLifecycleCheck('warn')).toBe(true);
+    expect(isLifecycleCheck('fail')).toBe(true);
+    expect(isLifecycleCheck('off')).toBe(true);
+    expect(isLifecycleCheck('install')).toBe(false);
+  });
+});
+
+describe('expiresOldTag', () => {
+  const folders = [ 'pr-123', 'pr-124' ];
+  const andRule = (and: LifecycleRuleAndOperator): LifecycleRule => ({
+    Status: 'Enabled',
+    Filter: { And: { Tags: [{ Key: 'team', Value: 'docs' }, { Key: 'old', Value: 'true' }], ...and }},
+    Expiration: { Date: new Date('2026-10-19T00:00:00.000Z') }
+  });
+
+  test('finds an enabled rule that expires the tag', () => {
+    expect(expiresOldTag(oldTagRule(tag, 30, false), tag, folders)).toBe(true);
+    expect(expiresOldTag(andRule({}), tag, folders)).toBe(true);
+  });
+
+  test('accepts a prefix only if it covers every folder', () => {
+    expect(expiresOldTag(andRule({ Prefix: 'pr-' }), tag, folders)).toBe(true);
+    expect(expiresOldTag(andRule({ Prefix: 'pr-123/' }), tag, folders)).toBe(false);
+    expect(expiresOldTag(andRule({ Prefix: 'pr-123/' }), tag, [ 'pr-123' ])).toBe(true);
+    expect(expiresOldTag({ ...oldTagRule(tag, 30, false), Prefix: 'main/' }, tag, folders)).toBe(false);
+  });
+
+  test('ignores rules with size bounds', () => {
+    expect(expiresOldTag(andRule({ ObjectSizeGreaterThan: 1024 }), tag, folders)).toBe(false);
+    expect(expiresOldTag(andRule({ ObjectSizeLessThan: 1024 }), tag, folders)).toBe(false);
+  });
+
+  test('ignores disabled rules, other tags and rules that do not expire objects', () => {
+    expect(expiresOldTag({ ...oldTagRule(tag, 30, false), Status: 'Disabled' }, tag, folders)).toBe(false);
+    expect(expiresOldTag(oldTagRule({ key: 'old', value: 'yes' }, 30, false), tag, folders)).toBe(false);
+    expect(expiresOldTag({ ...oldTagRule(tag, 30, false), Expiration: undefined }, tag, folders)).toBe(false);
+    expect(expiresOldTag(unrelated, tag, folders)).toBe(false);
+  });
+});
+
+describe('oldTagRule', () => {
+  test('expires noncurrent versions in a versioned bucket, where expired objects become noncurrent', () => {
+    expect(expiresNoncurrent(oldTagRule(tag, 30, false))).toBe(false);
+    expect(oldTagRule(tag, 30, true)).toEqual({
+      ID: 'tinymce-docs-cleanup-old',
+      Status: 'Enabled',
+      Filter: { Tag: { Key: 'old', Value: 'true' }},
+      Expiration: { Days: 30 },
+      NoncurrentVersionExpiration: { NoncurrentDays: 30 }
+    });
+  });
+});
+
+describe('isRuleUpToDate', () => {
+  test('compares the filter and expiration', () => {
+    const rule = oldTagRule(tag, 30, false);
+    expect(isRuleUpToDate(undefined, rule)).toBe(false);
+    expect(isRuleUpToDate({ ...rule, Filter: { ...rule.Filter, Prefix: '' }}, rule)).toBe(true);
+    expect(isRuleUpToDate(oldTagRule(tag, 7, false), rule)).toBe(false);
+    expect(isRuleUpToDate(oldTagRule(tag, 30, true), rule)).toBe(false);
+    expect(isRuleUpToDate({ ...rule, Status: 'Disabled' }, rule)).toBe(false);
+  });
+});
+
+describe('withRule', () => {
+  test('adds the rule and leaves the other rules alone', () => {
+    const rule = oldTagRule(tag, 30, false);
+    expect(withRule([ unrelated ], rule)).toEqual([ unrelated, rule ]);
+  });
+
+  test('replaces the rule with the same ID', () => {
+    const rule = oldTagRule(tag, 30, false);
+    expect(withRule([ oldTagRule(tag, 7, false), unrelated ], rule)).toEqual([ rule, unrelated ]);
+  });
+});
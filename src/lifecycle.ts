@@ -0,0 +1,57 @@
+import { LifecycleRule, Tag } from '@aws-sdk/client-s3';
+import { OldTag } from './tags';
+
+/** The ID of the lifecycle rule the action installs. */
+export const OLD_TAG_RULE_ID = 'tinymce-docs-cleanup-old';
+
+export type LifecycleCheck = 'warn' | 'fail' | 'off';
+
+export const isLifecycleCheck = (s: string): s is LifecycleCheck => s === 'warn' || s === 'fail' || s === 'off';
+
+const isOldTag = (t: Tag | undefined, tag: OldTag) => t?.Key === tag.key && t.Value === tag.value;
+
+/** Checks if a rule's prefix, if it has one, covers every folder. */
+const coversFolders = (prefix: string | undefined, folders: string[]) => folders.every((f) => `${f}/`.startsWith(prefix ?? ''));
+
+/** Checks if a rule filters on the old tag, alone or with other tags and a prefix that covers every folder, but no size bounds. */
+const filtersOldTag = (rule: LifecycleRule, tag: OldTag, folders: string[]) => {
+  const and = rule.Filter?.And;
+  return isOldTag(rule.Filter?.Tag, tag) || (and !== undefined &&
+    (and.Tags ?? []).some((t) => isOldTag(t, tag)) && coversFolders(and.Prefix, folders) &&
+    and.ObjectSizeGreaterThan === undefined && and.ObjectSizeLessThan === undefined);
+};
+
+/** Checks if a rule is enabled and expires every object with the old tag in the folders being cleaned up. */
+export const expiresOldTag = (rule: LifecycleRule, tag: OldTag, folders: string[]) =>
+  rule.Status === 'Enabled' &&
+  filtersOldTag(rule, tag, folders) && coversFolders(rule.Prefix, folders) &&
+  (rule.Expiration?.Days !== undefined || rule.Expiration?.Date !== undefined);
+
+/** Checks if a rule also expires noncurrent versions, which a versioned bucket needs. */
+export const expiresNoncurrent = (rule: LifecycleRule) => rule.NoncurrentVersionExpiration?.NoncurrentDays !== undefined;
+
+/**
+ * The rule the action installs, expiring objects with the old tag after a number
+ * of days. In a versioned bucket expiring an object only makes it noncurrent, so
+ * the rule expires noncurrent versions too.
+ */
+export const oldTagRule = (tag: OldTag, days: number, versioned: boolean): LifecycleRule => ({
+  ID: OLD_TAG_RULE_ID,
+  Status: 'Enabled',
+  Filter: { Tag: { Key: tag.key, Value: tag.value }},
+  Expiration: { Days: days },
+  ...(versioned ? { NoncurrentVersionExpiration: { NoncurrentDays: days }} : {})
+});
+
+/** Checks if an installed rule already does what the rule to install does. */
+export const isRuleUpToDate = (installed: LifecycleRule | undefined, rule: LifecycleRule) =>
+  installed !== undefined &&
+  installed.Status === rule.Status &&
+  !installed.Filter?.Prefix && installed.Filter?.And === undefined &&
+  installed.Filter?.Tag?.Key === rule.Filter?.Tag?.Key && installed.Filter?.Tag?.Value === rule.Filter?.Tag?.Value &&
+  installed.Expiration?.Days === rule.Expiration?.Days &&
+  installed.NoncurrentVersionExpiration?.NoncurrentDays === rule.NoncurrentVersionExpiration?.NoncurrentDays;
+
+/** The rules of a bucket with a rule installed or replaced by its ID, leaving every other rule as it is. */
+export const withRule = (rules: LifecycleRule[], rule: LifecycleRule) =>
+  rules.some((r) => r.ID === rule.ID) ? rules.map((r) => r.ID === rule.ID ? rule : r) : [ ...rules, rule ];
@@ -0,0 +1,62 @@
+import { expect, test, describe } from '@jest/globals';
+import { runContext } from './audit';
+import { isStale, lockKey, lockOwner, newLease, parseLease, renewedLease } from './lock';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+describe('lockKey', () => {
+  test('is in the folder', () => {
+    expect(lockKey('pr-123')).toBe('pr-123/.cleanup/lock');
+  });
+});
+
+describe('lockOwner', () => {
+  test('names the workflow run or the host', () => {
+    const run = runContext({ GITHUB_RUN_ID: '1234', GITHUB_RUN_ATTEMPT: '2', GITHUB_REPOSITORY: 'tinymce/tinymce-docs' });
+    expect(lockOwner(run, 'runner', 10)).toBe('tinymce/tinymce-docs run 1234 attempt 2');
+    expect(lockOwner(runContext({}), 'ops-laptop', 10)).toBe('ops-laptop pid 10');
+  });
+});
+
+describe('newLease and renewedLease', () => {
+  test('expire a ttl after the last heartbeat', () => {
+    const lease = newLease('ops-laptop pid 10', now, 60000);
+    expect(lease).toEqual({
+      owner: 'ops-laptop pid 10',
+      acquiredAt: '2026-10-19T12:00:00.000Z',
+      heartbeatAt: '2026-10-19T12:00:00.000Z',
+      expiresAt: '2026-10-19T12:01:00.000Z'
+    });
+    expect(renewedLease(lease, new Date('2026-10-19T12:00:20.000Z'), 60000)).toEqual({
+      ...lease,
+      heartbeatAt: '2026-10-19T12:00:20.000Z',
+      expiresAt: '2026-10-19T12:01:20.000Z'
+    });
+  });
+});
+
+describe('parseLease', () => {
+  test('reads a lease', () => {
+    const lease = newLease('ops-laptop pid 10', now, 60000);
+    expect(parseLease(JSON.stringify(lease))).toEqual(lease);
+  });
+
+  test('returns undefined for anything else', () => {
+    expect(parseLease('')).toBeUndefined();
+    expect(parseLease('null')).toBeUndefined();
+    expect(parseLease('{"owner":"ops-laptop pid 10"}')).toBeUndefined();
+  });
+});
+
+describe('isStale', () => {
+  test('is stale once expired', () => {
+    const lease = newLease('ops-laptop pid 10', now, 60000);
+    expect(isStale(lease, new Date('2026-10-19T12:00:59.999Z'))).toBe(false);
+    expect(isStale(lease, new Date('2026-10-19T12:01:00.000Z'))).toBe(true);
+  });
+
+  test('is stale when the lease cannot be read', () => {
+    expect(isStale(undefined, now)).toBe(true);
+    expect(isStale({ ...newLease('ops-laptop pid 10', now, 60000), expiresAt: 'soon' }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { RunContext } from './audit';
+
+/** The contents of a folder's lock object, held by one run at a time. */
+export interface Lease {
+  owner: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  expiresAt: string;
+}
+
+export type LockHeld = 'skip' | 'fail';
+
+export interface LockOptions {
+  enabled: boolean;
+  owner: string;
+  /** How long a lease lasts without a heartbeat before another run may take it over. */
+  ttlMs: number;
+  /** How long to wait for a lock held by another run. */
+  waitMs: number;
+  /** Whether a folder still locked after waiting is skipped or fails. */
+  held: LockHeld;
+}
+
+export const isLockHeld = (s: string): s is LockHeld => s === 'skip' || s === 'fail';
+
+export const lockKey = (folder: string) => `${folder}/.cleanup/lock`;
+
+/** Describe who holds a lock, the workflow run or the host of a command line run. */
+export const lockOwner = (run: RunContext, host: string, pid: number) =>
+  run.id !== '' ? `${run.repository} run ${run.id} attempt ${run.attempt}` : `${host} pid ${pid}`;
+
+export const newLease = (owner: string, now: Date, ttlMs: number): Lease => ({
+  owner,
+  acquiredAt: now.toISOString(),
+  heartbeatAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+});
+
+/** Extend a lease from now, as a heartbeat. */
+export const renewedLease = (lease: Lease, now: Date, ttlMs: number): Lease => ({
+  ...lease,
+  heartbeatAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+});
+
+/** Read a lease, or undefined if the lock object is not one. */
+export const parseLease = (body: string): Lease | undefined => {
+  try {
+    const lease: unknown = JSON.parse(body);
+    if (typeof lease === 'object' && lease !== null && 'owner' in lease && 'expiresAt' in lease &&
+      typeof lease.owner === 'string' && typeof lease.expiresAt === 'string') {
+      return lease as Lease;
+    }
+  } catch {
+    // not a lease
+  }
+  return undefined;
+};
+
+/** Checks if a lease has expired without a heartbeat, a lock that cannot be read is stale too. */
+export const isStale = (lease: Lease | undefined, now: Date) => {
+  const expiresAt = lease ? Date.parse(lease.expiresAt) : NaN;
+  return Number.isNaN(expiresAt) || expiresAt <= now.getTime();
+};
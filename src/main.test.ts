@@ -3,7 +3,8 @@ import { spawn } from 'node:child_process';
 import {
   S3Client, CreateBucketCommand, BucketAlreadyOwnedByYou, GetObjectCommand,
   HeadObjectCommand, S3ServiceException, PutObjectCommand, GetObjectTaggingCommand,
-  CopyObjectCommand
+  CopyObjectCommand, PutObjectTaggingCommand, PutBucketVersioningCommand, ListObjectVersionsCommand,
+  DeleteBucketLifecycleCommand, GetBucketLifecycleConfigurationCommand, PutBucketLifecycleConfigurationCommand
 } from '@aws-sdk/client-s3';
 import { expect, test, beforeAll, beforeEach } from '@jest/globals';
 
@@ -16,8 +17,8 @@ interface SpawnAsyncResult {
   error?: Error | undefined;
 };
 
-const spawnAsync = (cmd: string[]) => new Promise<SpawnAsyncResult>((resolve) => {
-  const p = spawn(cmd[0], cmd.slice(1), { stdio: [ 'inherit', 'pipe', 'pipe' ] });
+const spawnAsync = (cmd: string[], env: Record<string, string> = {}) => new Promise<SpawnAsyncResult>((resolve) => {
+  const p = spawn(cmd[0], cmd.slice(1), { stdio: [ 'inherit', 'pipe', 'pipe' ], env: { ...process.env, ...env }});
   p.stdout.setEncoding('utf-8');
   p.stderr.setEncoding('utf-8');
   let out = '';
@@ -97,11 +98,13 @@ const setPointer = async (client: S3Client, bucket: string, folder: string, vers
   }));
 };
 
-const runAction = async () => {
-  const result = await spawnAsync([ 'npx', '@github/local-action', '/workspaces/tinymce-docs-cleanup-action', 'src/main.ts', 'test-data/.env' ]);
+const runAction = async (inputs: Record<string, string> = {}) => {
+  const env = Object.fromEntries(Object.entries(inputs).map(([ name, value ]) => [ `INPUT_${name.toUpperCase()}`, value ]));
+  const result = await spawnAsync([ 'npx', '@github/local-action', '/workspaces/tinymce-docs-cleanup-action', 'src/main.ts', 'test-data/.env' ], env);
   if (result.error !== undefined) {
     throw result.error;
   }
+  return result.stdout;
 };
 
 const existsInBucket = async (client: S3Client, bucket: string, prefix: string, subpath: string): Promise<boolean> => {
@@ -271,4 +274,535 @@ test('files are as expected after running action', async () => {
     const newerContent = await getContent(s3client, BUCKET_NAME, `${FOLDER}/${newerRun}`, FILES[i]);
     expect(newerContent).toBe(CONTENTS[i]);
   }
-}, 10000);
\ No newline at end of file
+}, 10000);
+
+test('dry run does not tag any files', async () => {
+  await runAction({ 'dry-run': 'true' });
+
+  for (const run of RUNS) {
+    for (const file of FILES) {
+      const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, file);
+      expect(tags.old).toBeUndefined();
+
+      const metadata = await getMetadata(s3client, BUCKET_NAME, `${FOLDER}/${run}`, file);
+      expect(metadata['old-at']).toBeUndefined();
+    }
+  }
+}, 10000);
+
+test('keep-count leaves the most recent superseded versions untagged', async () => {
+  await runAction({ 'keep-count': '1' });
+
+  // run-12-3 is tagged, run-13-1 is the most recent superseded version so is kept
+  const oldTags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0]);
+  expect(oldTags.old).toBe('true');
+  const keptTags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[1]}`, FILES[0]);
+  expect(keptTags.old).toBeUndefined();
+}, 10000);
+
+test('folders cleans up every matching folder', async () => {
+  const otherFolder = 'pr-124';
+  for (const run of RUNS) {
+    await putFiles(s3client, BUCKET_NAME, `${otherFolder}/${run}`, FILES, CONTENTS);
+  }
+  await setPointer(s3client, BUCKET_NAME, otherFolder, RUNS[3]);
+
+  await runAction({ folder: '', folders: 'pr-*' });
+
+  for (const folder of [ FOLDER, otherFolder ]) {
+    const pointer = (await getMetadata(s3client, BUCKET_NAME, folder, 'index.html')).pointer;
+    for (const run of RUNS) {
+      const tags = await getTags(s3client, BUCKET_NAME, `${folder}/${run}`, FILES[0]);
+      expect(tags.old).toBe(RUNS.indexOf(run) < RUNS.indexOf(pointer) ? 'true' : undefined);
+    }
+  }
+}, 20000);
+
+test('retire-folder tags every version and the pointer', async () => {
+  await runAction({ mode: 'retire-folder' });
+
+  for (const run of RUNS) {
+    for (const file of FILES) {
+      const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, file);
+      expect(tags.old).toBe('true');
+    }
+  }
+  const pointerTags = await getTags(s3client, BUCKET_NAME, FOLDER, 'index.html');
+  expect(pointerTags.old).toBe('true');
+  // the pointer metadata is kept
+  const pointerMetadata = await getMetadata(s3client, BUCKET_NAME, FOLDER, 'index.html');
+  expect(pointerMetadata.pointer).toBe(RUNS[2]);
+}, 10000);
+
+test('retire-folder tags everything in the folder apart from the audit ledger and markers', async () => {
+  await putFiles(s3client, BUCKET_NAME, FOLDER, [ '404.html', 'current.json', 'latest/index.html', 'assets/site.css' ], [ '404', '{}', '?', 'css' ]);
+  await updateMetadata(s3client, BUCKET_NAME, FOLDER, 'latest/index.html', { pointer: RUNS[1] });
+
+  await runAction({ 'mode': 'retire-folder', 'alias-keys': 'latest/index.html' });
+
+  for (const key of [ '404.html', 'current.json', 'latest/index.html', 'assets/site.css', 'index.html' ]) {
+    expect((await getTags(s3client, BUCKET_NAME, FOLDER, key)).old).toBe('true');
+  }
+  expect((await getTags(s3client, BUCKET_NAME, FOLDER, '.cleanup/log.jsonl')).old).toBeUndefined();
+  expect(await existsInBucket(s3client, BUCKET_NAME, `${FOLDER}/.cleanup/old`, RUNS[2])).toBe(true);
+}, 10000);
+
+test('tag-old skips a retired folder rather than restoring its current version', async () => {
+  await runAction({ mode: 'retire-folder' });
+  const ledger = await getContent(s3client, BUCKET_NAME, FOLDER, '.cleanup/log.jsonl');
+  const stdout = await runAction();
+
+  expect(stdout).toContain(`Skipping ${FOLDER} as it has been retired`);
+  for (const file of FILES) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[2]}`, file);
+    expect(tags.old).toBe('true');
+  }
+  expect(await getContent(s3client, BUCKET_NAME, FOLDER, '.cleanup/log.jsonl')).toBe(ledger);
+}, 20000);
+
+test('tag-old skips a folder with nothing left but the audit ledger', async () => {
+  const emptyFolder = 'pr-124';
+  await putFiles(s3client, BUCKET_NAME, emptyFolder, [ '.cleanup/log.jsonl' ], [ '{}\n' ]);
+
+  const stdout = await runAction({ folder: '', folders: 'pr-*' });
+
+  expect(stdout).toContain(`Skipping ${emptyFolder} as it has no pointer`);
+  expect(await getContent(s3client, BUCKET_NAME, emptyFolder, '.cleanup/log.jsonl')).toBe('{}\n');
+  expect((await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0])).old).toBe('true');
+}, 10000);
+
+test('retire-folder refuses to run against a protected folder', async () => {
+  await expect(runAction({ 'mode': 'retire-folder', 'protected-folders': 'main, pr-*' })).rejects.toThrow();
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBeUndefined();
+  }
+}, 10000);
+
+test('versions tagged as old are restored when the pointer moves back to them', async () => {
+  await runAction();
+  await setPointer(s3client, BUCKET_NAME, FOLDER, RUNS[1]);
+  await runAction();
+
+  // run-12-3 stays old, run-13-1 is current again so is restored
+  const oldTags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0]);
+  expect(oldTags.old).toBe('true');
+  for (const file of FILES) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[1]}`, file);
+    expect(tags.old).toBeUndefined();
+    const metadata = await getMetadata(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[1]}`, file);
+    expect(metadata['old-at']).toBeUndefined();
+  }
+  const restoredMetadata = await getMetadata(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[1]}`, FILES[0]);
+  expect(restoredMetadata['custom-key']).toBe('custom-value');
+  expect(restoredMetadata.version).toBe(RUNS[1]);
+}, 20000);
+
+test('restore mode removes the old tag from the named version', async () => {
+  await runAction();
+  await runAction({ mode: 'restore', version: RUNS[0] });
+
+  for (const file of FILES) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, file);
+    expect(tags.old).toBeUndefined();
+  }
+  // other versions are untouched
+  const otherTags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[1]}`, FILES[0]);
+  expect(otherTags.old).toBe('true');
+}, 20000);
+
+test('a partly tagged version is resumed', async () => {
+  // simulate a run that stopped after tagging the first file
+  const key = `${FOLDER}/${RUNS[0]}/${FILES[0]}`;
+  await s3client.send(new CopyObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    CopySource: `${BUCKET_NAME}/${key}`,
+    MetadataDirective: 'REPLACE',
+    Metadata: { 'old-at': (new Date()).toISOString() },
+    TaggingDirective: 'REPLACE',
+    Tagging: 'old=true'
+  }));
+
+  await runAction();
+
+  for (const run of [ RUNS[0], RUNS[1] ]) {
+    for (const file of FILES) {
+      const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, file);
+      expect(tags.old).toBe('true');
+    }
+    expect(await existsInBucket(s3client, BUCKET_NAME, `${FOLDER}/.cleanup/old`, run)).toBe(true);
+    expect(await existsInBucket(s3client, BUCKET_NAME, `${FOLDER}/.cleanup/partial`, run)).toBe(false);
+  }
+}, 10000);
+
+test('a partly tagged version is restored when the pointer moves back to it', async () => {
+  // simulate a run that stopped after tagging a file other than the first
+  const key = `${FOLDER}/${RUNS[2]}/${FILES[3]}`;
+  await s3client.send(new PutObjectTaggingCommand({ Bucket: BUCKET_NAME, Key: key, Tagging: { TagSet: [{ Key: 'old', Value: 'true' }] }}));
+  await s3client.send(new PutObjectCommand({ Bucket: BUCKET_NAME, Key: `${FOLDER}/.cleanup/partial/${RUNS[2]}`, Body: '{}' }));
+
+  await runAction();
+
+  expect((await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[2]}`, FILES[3])).old).toBeUndefined();
+  expect(await existsInBucket(s3client, BUCKET_NAME, `${FOLDER}/.cleanup/partial`, RUNS[2])).toBe(false);
+}, 10000);
+
+test('a version tagged as old without a marker is restored when the pointer points to it', async () => {
+  // simulate a version tagged by hand or by an earlier release, which wrote no markers
+  for (const file of FILES) {
+    const key = `${FOLDER}/${RUNS[2]}/${file}`;
+    await s3client.send(new PutObjectTaggingCommand({ Bucket: BUCKET_NAME, Key: key, Tagging: { TagSet: [{ Key: 'old', Value: 'true' }] }}));
+  }
+
+  await runAction();
+
+  for (const file of FILES) {
+    expect((await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[2]}`, file)).old).toBeUndefined();
+  }
+}, 10000);
+
+test('existing tags are kept when tagging as old', async () => {
+  const key = `${FOLDER}/${RUNS[0]}/${FILES[0]}`;
+  await s3client.send(new PutObjectTaggingCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    Tagging: { TagSet: [{ Key: 'team', Value: 'docs' }] }
+  }));
+
+  await runAction({ 'tag-key': 'expire', 'tag-value': 'soon' });
+
+  const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0]);
+  expect(tags).toEqual({ team: 'docs', expire: 'soon' });
+}, 10000);
+
+test('tagging and restoring keep every property of an object apart from its last modified date, tags, old-at and published-at', async () => {
+  const key = `${FOLDER}/${RUNS[0]}/page.html`;
+  await s3client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    Body: '<!doctype html><title>page</title>',
+    ContentType: 'text/html; charset=utf-8',
+    ContentDisposition: 'inline',
+    ContentLanguage: 'en',
+    Expires: new Date('2030-01-01T00:00:00.000Z'),
+    WebsiteRedirectLocation: '/pr-123/run-12-3/other.html',
+    Metadata: { 'custom-key': 'custom-value' }
+  }));
+  const headProperties = async () => {
+    const { LastModified: lastModified, $metadata: _metadata, Metadata, ...properties } = await s3client.send(new HeadObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key
+    }));
+    const { 'old-at': oldAt, 'published-at': publishedAt, ...metadata } = Metadata ?? {};
+    return { properties: { ...properties, Metadata: metadata }, lastModified, oldAt, publishedAt };
+  };
+  const before = await headProperties();
+
+  await runAction();
+
+  const after = await headProperties();
+  expect(after.properties).toEqual(before.properties);
+  // the copy changes the last modified date, so the date it was published is kept
+  expect(after.publishedAt).toBe(before.lastModified?.toISOString());
+  expect(after.properties.CacheControl).toBeUndefined();
+  expect(after.oldAt).toBeDefined();
+  const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, 'page.html');
+  expect(tags.old).toBe('true');
+
+  await runAction({ mode: 'restore', version: RUNS[0] });
+
+  const restored = await headProperties();
+  expect(restored.properties).toEqual(before.properties);
+  expect(restored.oldAt).toBeUndefined();
+  expect(restored.publishedAt).toBe(after.publishedAt);
+}, 20000);
+
+test('semver versions are ordered and unrecognised prefixes are left alone', async () => {
+  const semverFolder = 'docs-8';
+  const versions = [ '8.0.0-rc.1', '8.0.0', '8.10.0', '8.9.0' ];
+  for (const version of [ ...versions, 'latest' ]) {
+    await putFiles(s3client, BUCKET_NAME, `${semverFolder}/${version}`, FILES, CONTENTS);
+  }
+  await setPointer(s3client, BUCKET_NAME, semverFolder, '8.9.0');
+
+  await runAction({ 'folder': semverFolder, 'version-scheme': 'semver' });
+
+  for (const version of [ '8.0.0-rc.1', '8.0.0' ]) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${semverFolder}/${version}`, FILES[0]);
+    expect(tags.old).toBe('true');
+  }
+  for (const version of [ '8.9.0', '8.10.0', 'latest' ]) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${semverFolder}/${version}`, FILES[0]);
+    expect(tags.old).toBeUndefined();
+  }
+}, 20000);
+
+test('the current version can be read from a JSON manifest', async () => {
+  await s3client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: `${FOLDER}/current.json`,
+    Body: JSON.stringify({ version: RUNS[1] }),
+    ContentType: 'application/json'
+  }));
+
+  await runAction({ 'pointer-source': 'json' });
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBe(run === RUNS[0] ? 'true' : undefined);
+  }
+}, 10000);
+
+test('a current version that was not found fails without tagging', async () => {
+  await expect(runAction({ 'current-version': 'run-99-1' })).rejects.toThrow();
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBeUndefined();
+  }
+}, 10000);
+
+test('versions referenced by aliases or protected are not tagged', async () => {
+  await setPointer(s3client, BUCKET_NAME, `${FOLDER}/latest`, RUNS[0]);
+  await setPointer(s3client, BUCKET_NAME, FOLDER, RUNS[3]);
+
+  await runAction({ 'alias-keys': 'latest/index.html', 'protected-versions': RUNS[2] });
+
+  // only run-13-1 is neither current, aliased nor protected
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBe(run === RUNS[1] ? 'true' : undefined);
+  }
+}, 10000);
+
+test('each run appends a record to the audit ledger', async () => {
+  await runAction();
+  await runAction({ 'dry-run': 'true' });
+  await runAction();
+
+  const records = (await getContent(s3client, BUCKET_NAME, `${FOLDER}/.cleanup`, 'log.jsonl')).trim().split('\n').map((line) => JSON.parse(line));
+  // the dry run does not write a record, and the second run has nothing left to tag
+  expect(records).toHaveLength(2);
+  expect(records[0]).toMatchObject({
+    mode: 'tag-old',
+    folder: FOLDER,
+    currentVersion: RUNS[2],
+    tagged: [
+      { prefix: `${FOLDER}/${RUNS[0]}/`, objects: FILES.length },
+      { prefix: `${FOLDER}/${RUNS[1]}/`, objects: FILES.length }
+    ],
+    errors: []
+  });
+  expect(records[1].tagged).toEqual([]);
+}, 20000);
+
+test('the reclaimable storage and the size of every version are logged', async () => {
+  const stdout = await runAction({ 'storage-report': 'true', 'largest-files': '1' });
+
+  const bytes = CONTENTS.reduce((acc, c) => acc + c.length, 0);
+  expect(stdout).toContain(`Storage reported: ${bytes * RUNS.length} bytes in ${FILES.length * RUNS.length} objects`);
+  expect(stdout).toContain(`Reclaimable once the lifecycle rule expires the newly tagged versions: ${bytes * 2} bytes in ${FILES.length * 2} objects`);
+  expect(stdout).toMatch(/Largest files:\s+5 bytes pr-123\/run-[\d-]+\/file-three\.txt/);
+}, 10000);
+
+test('many versions are tagged in parallel and reported in order', async () => {
+  const manyFolder = 'pr-200';
+  const runs = Array.from({ length: 30 }, (_, i) => `run-${i + 1}-1`);
+  for (const run of runs) {
+    await putFiles(s3client, BUCKET_NAME, `${manyFolder}/${run}`, [ FILES[0] ], [ CONTENTS[0] ]);
+  }
+  await setPointer(s3client, BUCKET_NAME, manyFolder, runs[runs.length - 1]);
+
+  await runAction({ 'folder': manyFolder, 'max-requests-per-second': '50' });
+
+  for (const run of runs) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${manyFolder}/${run}`, FILES[0]);
+    expect(tags.old).toBe(run === runs[runs.length - 1] ? undefined : 'true');
+  }
+  const record = JSON.parse(await getContent(s3client, BUCKET_NAME, `${manyFolder}/.cleanup`, 'log.jsonl'));
+  expect(record.tagged.map((t: { prefix: string }) => t.prefix)).toEqual(runs.slice(0, -1).map((run) => `${manyFolder}/${run}/`));
+}, 30000);
+
+test('redirect-old redirects old pages to the current version until restored', async () => {
+  for (const run of RUNS) {
+    await s3client.send(new PutObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: `${FOLDER}/${run}/guide/index.html`,
+      Body: `<!doctype html><title>${run}</title>`,
+      ContentType: 'text/html'
+    }));
+  }
+  await s3client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: `${FOLDER}/${RUNS[0]}/removed.html`,
+    Body: '<!doctype html><title>removed</title>',
+    ContentType: 'text/html'
+  }));
+
+  await runAction({ 'redirect-old': 'true' });
+
+  const redirectOf = async (key: string) => (await s3client.send(new HeadObjectCommand({ Bucket: BUCKET_NAME, Key: key }))).WebsiteRedirectLocation;
+  expect(await redirectOf(`${FOLDER}/${RUNS[0]}/guide/index.html`)).toBe(`/${FOLDER}/${RUNS[2]}/guide/index.html`);
+  expect(await redirectOf(`${FOLDER}/${RUNS[0]}/removed.html`)).toBe(`/${FOLDER}/`);
+  // only HTML pages are redirected
+  expect(await redirectOf(`${FOLDER}/${RUNS[0]}/${FILES[0]}`)).toBeUndefined();
+  expect(await redirectOf(`${FOLDER}/${RUNS[2]}/guide/index.html`)).toBeUndefined();
+
+  await runAction({ mode: 'restore', version: RUNS[0] });
+
+  expect(await redirectOf(`${FOLDER}/${RUNS[0]}/guide/index.html`)).toBeUndefined();
+  const metadata = await getMetadata(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}/guide`, 'index.html');
+  expect(metadata['old-redirect-from']).toBeUndefined();
+}, 20000);
+
+const putLock = async (client: S3Client, bucket: string, folder: string, expiresAt: Date) => {
+  const time = expiresAt.toISOString();
+  await client.send(new PutObjectCommand({
+    Bucket: bucket,
+    Key: `${folder}/.cleanup/lock`,
+    Body: JSON.stringify({ owner: 'another run', acquiredAt: time, heartbeatAt: time, expiresAt: time }),
+    ContentType: 'application/json'
+  }));
+};
+
+test('a folder locked by another run is skipped or fails', async () => {
+  await putLock(s3client, BUCKET_NAME, FOLDER, new Date(Date.now() + 600000));
+
+  const stdout = await runAction();
+  expect(stdout).toContain(`Skipping ${FOLDER}, it is locked by another run`);
+  await expect(runAction({ 'lock-held': 'fail' })).rejects.toThrow();
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBeUndefined();
+  }
+  expect(await existsInBucket(s3client, BUCKET_NAME, FOLDER, '.cleanup/lock')).toBe(true);
+}, 20000);
+
+test('a stale lock is taken over and the lock is released when done', async () => {
+  await putLock(s3client, BUCKET_NAME, FOLDER, new Date(Date.now() - 1000));
+
+  const stdout = await runAction();
+  expect(stdout).toContain(`Took over the stale lock on ${FOLDER} from another run`);
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBe(run === RUNS[0] || run === RUNS[1] ? 'true' : undefined);
+  }
+  expect(await existsInBucket(s3client, BUCKET_NAME, FOLDER, '.cleanup/lock')).toBe(false);
+}, 10000);
+
+test('superseded versions are not tagged within the grace period after the pointer moved', async () => {
+  const stdout = await runAction({ 'grace-period': '60' });
+  expect(stdout).toContain(`Keeping ${FOLDER}/${RUNS[0]}/ as it was superseded within the last 60 minutes`);
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBeUndefined();
+  }
+
+  // a version given as current-version is not held back by the pointer
+  await runAction({ 'grace-period': '60', 'current-version': RUNS[2] });
+  expect((await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0])).old).toBe('true');
+}, 20000);
+
+test('continue-on-error collects the keys that fail and tags the rest', async () => {
+  // objects can have at most 10 tags, so the old tag cannot be added to this one
+  await s3client.send(new PutObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: `${FOLDER}/${RUNS[0]}/full-of-tags.txt`,
+    Body: 'tags',
+    Tagging: Array.from({ length: 10 }, (_, i) => `tag-${i}=value`).join('&')
+  }));
+
+  await expect(runAction({ 'continue-on-error': 'true' })).rejects.toThrow(/1 keys failed, more than the 0 allowed by max-failures/);
+  const stdout = await runAction({ 'continue-on-error': 'true', 'max-failures': '1' });
+  expect(stdout).toContain(`Failed to update ${FOLDER}/${RUNS[0]}/full-of-tags.txt, continuing with the rest`);
+
+  for (const run of RUNS) {
+    const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+    expect(tags.old).toBe(run === RUNS[0] || run === RUNS[1] ? 'true' : undefined);
+  }
+  // the version is not marked as old so that the next run retries the failed key
+  expect(await existsInBucket(s3client, BUCKET_NAME, FOLDER, `.cleanup/old/${RUNS[0]}`)).toBe(false);
+  expect(await existsInBucket(s3client, BUCKET_NAME, FOLDER, `.cleanup/old/${RUNS[1]}`)).toBe(true);
+}, 20000);
+
+test('the versions left behind by copies in a versioned bucket are tagged or deleted', async () => {
+  const bucket = `${BUCKET_NAME}-versioned`;
+  await createBucket(s3client, bucket);
+  await s3client.send(new PutBucketVersioningCommand({ Bucket: bucket, VersioningConfiguration: { Status: 'Enabled' }}));
+  // versions are not removed by emptying the bucket, so each run uses new folders
+  const tagFolder = `pr-${Date.now()}`;
+  const deleteFolder = `${tagFolder}-delete`;
+  for (const folder of [ tagFolder, deleteFolder ]) {
+    for (const run of RUNS) {
+      await putFiles(s3client, bucket, `${folder}/${run}`, [ FILES[0] ], [ CONTENTS[0] ]);
+    }
+    await setPointer(s3client, bucket, folder, RUNS[2]);
+  }
+  const versionsOf = async (key: string) => (await s3client.send(new ListObjectVersionsCommand({ Bucket: bucket, Prefix: key }))).Versions ?? [];
+
+  // the prefixes a run changes are sized with their noncurrent versions without storage-report
+  const stdout = await runAction({ bucket, folder: tagFolder });
+  const versions = await versionsOf(`${tagFolder}/${RUNS[0]}/${FILES[0]}`);
+  expect(versions).toHaveLength(2);
+  for (const version of versions) {
+    const tagging = await s3client.send(new GetObjectTaggingCommand({ Bucket: bucket, Key: version.Key, VersionId: version.VersionId }));
+    expect(tagging.TagSet).toEqual([{ Key: 'old', Value: 'true' }]);
+  }
+  expect(stdout).toContain(`${tagFolder}/${RUNS[0]}/ has 1 noncurrent versions`);
+
+  // a run that stopped after the copy left the version behind untagged, the next run picks it up
+  const noncurrent = versions.find((v) => !v.IsLatest);
+  await s3client.send(new PutObjectTaggingCommand({ Bucket: bucket, Key: noncurrent?.Key, VersionId: noncurrent?.VersionId, Tagging: { TagSet: [] }}));
+  await runAction({ bucket, folder: tagFolder, verify: 'true' });
+  const resumed = await s3client.send(new GetObjectTaggingCommand({ Bucket: bucket, Key: noncurrent?.Key, VersionId: noncurrent?.VersionId }));
+  expect(resumed.TagSet).toEqual([{ Key: 'old', Value: 'true' }]);
+
+  // the action's own objects do not leave a version behind on every write
+  expect(await versionsOf(`${tagFolder}/.cleanup/log.jsonl`)).toHaveLength(1);
+  expect(await versionsOf(`${tagFolder}/.cleanup/lock`)).toHaveLength(0);
+  expect(await versionsOf(`${tagFolder}/.cleanup/old/${RUNS[0]}`)).toHaveLength(1);
+
+  await runAction({ bucket, 'folder': deleteFolder, 'noncurrent-versions': 'delete' });
+  expect(await versionsOf(`${deleteFolder}/${RUNS[0]}/${FILES[0]}`)).toHaveLength(1);
+  expect((await getTags(s3client, bucket, `${deleteFolder}/${RUNS[0]}`, FILES[0])).old).toBe('true');
+
+  // expiring a tagged object only makes it noncurrent, whatever is done with the versions left behind by copies
+  await runAction({ bucket, 'folder': deleteFolder, 'noncurrent-versions': 'delete', 'install-lifecycle-rule': 'true' });
+  const rules = (await s3client.send(new GetBucketLifecycleConfigurationCommand({ Bucket: bucket }))).Rules ?? [];
+  expect(rules.find((r) => r.ID === 'tinymce-docs-cleanup-old')?.NoncurrentVersionExpiration?.NoncurrentDays).toBe(30);
+}, 20000);
+
+test('the lifecycle rule for the old tag is checked and installed alongside other rules', async () => {
+  await s3client.send(new DeleteBucketLifecycleCommand({ Bucket: BUCKET_NAME }));
+  const unrelated = {
+    ID: 'abort-uploads',
+    Status: 'Enabled' as const,
+    Filter: { Prefix: 'uploads/' },
+    AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 }
+  };
+  await s3client.send(new PutBucketLifecycleConfigurationCommand({ Bucket: BUCKET_NAME, LifecycleConfiguration: { Rules: [ unrelated ] }}));
+
+  try {
+    await expect(runAction({ 'lifecycle-check': 'fail' })).rejects.toThrow(/No enabled lifecycle rule/);
+    for (const run of RUNS) {
+      const tags = await getTags(s3client, BUCKET_NAME, `${FOLDER}/${run}`, FILES[0]);
+      expect(tags.old).toBeUndefined();
+    }
+
+    const stdout = await runAction({ 'install-lifecycle-rule': 'true', 'lifecycle-expiration-days': '7' });
+    expect(stdout).toContain('Installed the lifecycle rule tinymce-docs-cleanup-old');
+    const rules = (await s3client.send(new GetBucketLifecycleConfigurationCommand({ Bucket: BUCKET_NAME }))).Rules ?? [];
+    expect(rules.map((r) => r.ID).sort()).toEqual([ 'abort-uploads', 'tinymce-docs-cleanup-old' ]);
+    expect(rules.find((r) => r.ID === 'tinymce-docs-cleanup-old')?.Expiration?.Days).toBe(7);
+
+    await runAction({ 'lifecycle-check': 'fail' });
+    expect((await getTags(s3client, BUCKET_NAME, `${FOLDER}/${RUNS[0]}`, FILES[0])).old).toBe('true');
+  } finally {
+    await s3client.send(new DeleteBucketLifecycleCommand({ Bucket: BUCKET_NAME }));
+  }
+}, 20000);
@@ -1,223 +1,2079 @@
-import * as core from '@actions/core';
-
+import { hostname } from 'node:os';
 import {
   HeadObjectCommand,
-  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectAclCommand,
+  GetObjectCommand,
+  GetBucketLifecycleConfigurationCommand,
+  GetBucketVersioningCommand,
   GetObjectTaggingCommand,
-  ListObjectsCommand,
+  ListObjectsV2Command,
+  ListObjectVersionsCommand,
+  ListObjectVersionsRequest,
+  LifecycleRule,
+  PutBucketLifecycleConfigurationCommand,
+  PutObjectCommand,
+  PutObjectTaggingCommand,
   S3Client,
   CommonPrefix,
-  ListObjectsOutput,
+  ListObjectsV2Request,
+  _Object,
+  S3ServiceException,
+  Tag,
+  TransitionDefaultMinimumObjectSize,
 } from '@aws-sdk/client-s3';
-import { isValidFolder, isValidGeneralPurposeBucketName } from './validation';
-import { compareVersions, extractVersion, Version } from './version';
-import { parallelGenerator } from './parallel';
+import { isValidFolder, isValidGeneralPurposeBucketName, isValidKeyInFolder, isValidTagKey, isValidTagValue } from './validation';
+import { isoDateScheme, patternScheme, runAttemptScheme, semverScheme, VersionScheme } from './version';
+import { limiter, parallelGenerator, parallelMap, rateLimiter } from './parallel';
+import { CleanupReport, FolderFailure, KeyFailure, keyFailures, LockedFolder, reportOutputs, VersionReport } from './report';
+import { isInGracePeriod, isKeptByAge, isKeptByCount, RetentionPolicy } from './retention';
+import { isValidFolderPattern, matchFolders, parseFolderPatterns } from './folders';
+import { isThrottlingError, sleep, withRetry } from './retry';
+import { copiedProperties, copyInPlace, CopyProperties } from './copy';
+import { MAX_PART_SIZE } from './multipart';
+import { encodeTagging, hasOldTag, OldTag, withOldTag, withoutOldTag } from './tags';
+import { actionFrontend } from './action';
+import { addFile, addNoncurrent, emptySize, formatBytes, PrefixSize, storageLines, storageOutputs, storageSummary } from './storage';
+import { currentKey, folderRoot, isHtml, OldRedirect, withOldRedirect, withoutOldRedirect } from './redirect';
+import { appendRecord, AuditRecord, auditRecord, RunContext, runContext } from './audit';
+import { Frontend, Inputs, Logger } from './frontend';
+import { defaultPointerKey, describePointer, isPointerSource, manifestVersion, PointerOptions, redirectVersion } from './pointer';
+import { describeNoncurrent, isNoncurrentVersions, isVersioned, NoncurrentVersions, versionLeftBehind } from './versioning';
+import { expiresNoncurrent, expiresOldTag, isLifecycleCheck, isRuleUpToDate, LifecycleCheck, oldTagRule, withRule } from './lifecycle';
+import { isLockHeld, isStale, Lease, lockKey, LockOptions, lockOwner, newLease, parseLease, renewedLease } from './lock';
 
-/** Tag an object as old and update its last modified date. */
-const keyTaggedAsOld = async (
+type Limit = ReturnType<typeof limiter>;
+
+const RETRY_BASE_DELAY_MS = 200;
+const RETRY_MAX_DELAY_MS = 20000;
+
+/** The number of times to try appending to an audit ledger that other runs are changing at the same time. */
+const AUDIT_ATTEMPTS = 5;
+
+/** The longest to wait before checking a lock held by another run again. */
+const LOCK_POLL_MS = 5000;
+
+/** Errors from GetObjectAcl that mean the ACL is not available, rather than a failure. */
+const UNREADABLE_ACL_ERRORS = [ 'AccessDenied', 'AccessControlListNotSupported', 'NotImplemented' ];
+
+/** Errors from GetBucketVersioning that mean the versioning of the bucket is not available, rather than a failure. */
+const UNREADABLE_VERSIONING_ERRORS = [ 'AccessDenied', 'NotImplemented' ];
+
+/** Errors from GetObjectTagging that mean a version no longer exists. */
+const MISSING_VERSION_ERRORS = [ 'NoSuchVersion', 'NoSuchKey' ];
+
+/** The metadata entry recording the version a copy in place left behind in a versioned bucket. */
+const REPLACED_VERSION = 'replaced-version';
+
+/** The metadata entry recording when an object was published, as a copy in place changes its last modified date. */
+const PUBLISHED_AT = 'published-at';
+
+/** Errors from GetBucketLifecycleConfiguration that mean the rules cannot be checked, rather than a failure. */
+const UNREADABLE_LIFECYCLE_ERRORS = [ 'AccessDenied', 'NotImplemented' ];
+
+type Mode = 'tag-old' | 'retire-folder' | 'restore';
+
+interface CleanupOptions {
+  mode: Mode;
+  parallel: number;
+  /** The part size in bytes of objects too large to copy in one request. */
+  partSize: number;
+  /** The number of times to retry a key that fails with a retryable error. */
+  retries: number;
+  dryRun: boolean;
+  /** Collect the keys that fail and carry on with the rest of their version. */
+  continueOnError: boolean;
+  retention: RetentionPolicy;
+  /** The tag that marks an object as old for the lifecycle rule. */
+  tag: OldTag;
+  /** Redirect the HTML pages of old versions to the current version. */
+  redirectOld: boolean;
+  /** Check the tags of every object rather than trusting the markers of previous runs. */
+  verify: boolean;
+  /** Whether the bucket keeps the versions that copies in place replace. */
+  versioned: boolean;
+  /** What to do with the version each copy in place leaves behind in a versioned bucket. */
+  noncurrent: NoncurrentVersions;
+  /** How version prefixes are named and ordered. */
+  scheme: VersionScheme;
+  /** The version to restore in restore mode. */
+  version?: string;
+  /** Where to read the current version of a folder from. */
+  pointer: PointerOptions;
+  /** The current version of every folder, instead of reading the pointer. */
+  currentVersion?: string;
+  /** The keys of other pointers within the folder, such as aliases, whose versions are never tagged. */
+  aliasKeys: string[];
+  /** Versions that are never tagged, in any folder. */
+  protectedVersions: string[];
+  /** List the versions a run does not change to report their size too. */
+  storageReport: boolean;
+  /** The number of largest files to report. */
+  largestFiles: number;
+  /** The key within each folder of the audit ledger, or empty to not keep one. */
+  auditKey: string;
+  run: RunContext;
+  /** The lock taken on each folder so that runs do not clean up the same folder at once. */
+  lock: LockOptions;
+  /**
+   * The budget for keys worked on at once, shared between folders. Folders and
+   * versions have budgets of their own, so up to `parallel` of each are in
+   * progress along with the keys.
+   */
+  limit: Limit;
+  /** The budget for versions worked on at once, shared between folders. */
+  versionLimit: Limit;
+  /** The client for the requests of key tasks, which tries each request once as the action retries the tasks itself. */
+  keyClient: S3Client;
+  /** Aborted to stop the rest of a folder's work once the folder cannot finish, one for each folder. */
+  abort?: AbortController;
+  log: Logger;
+}
+
+interface LifecycleOptions {
+  check: LifecycleCheck;
+  /** Install or update the action's own rule rather than only checking for one. */
+  install: boolean;
+  expirationDays: number;
+}
+
+interface LifecycleConfiguration {
+  rules: LifecycleRule[];
+  transitionDefaultMinimumObjectSize?: TransitionDefaultMinimumObjectSize;
+}
+
+interface RetryCounts {
+  retries: number;
+  throttles: number;
+}
+
+interface FolderResult {
+  report?: CleanupReport;
+  failure?: FolderFailure;
+  locked?: LockedFolder;
+}
+
+/** A lock held by this run, with the ETag of the lease it last wrote. */
+interface FolderLock {
+  folder: string;
+  key: string;
+  etag?: string;
+  /** The version of the lease it last wrote in a versioned bucket. */
+  versionId?: string;
+  lease: Lease;
+  /** Set when a heartbeat finds that another run has taken the lock, or that the lease expired before it was renewed. */
+  lost: boolean;
+}
+
+interface PrefixStats {
+  objects: number;
+  bytes: number;
+}
+
+/** Get the metadata of an object, or undefined if it does not exist. */
+const headObject = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+) => {
+  try {
+    return await client.send(new HeadObjectCommand({
+      Bucket: bucket,
+      Key: key
+    }));
+  } catch (err) {
+    if (err instanceof S3ServiceException && err.name === 'NotFound') {
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+/** Checks if a conditional write failed because the object changed since it was read. */
+const isConditionFailed = (err: unknown) =>
+  err instanceof S3ServiceException && (err.name === 'PreconditionFailed' || err.name === 'ConditionalRequestConflict');
+
+/** Get the contents of an object as a string with its ETag and version, or undefined if it does not exist. */
+const objectBody = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+) => {
+  try {
+    const data = await client.send(new GetObjectCommand({
+      Bucket: bucket,
+      Key: key
+    }));
+    return { body: await data.Body?.transformToString('utf-8') ?? '', etag: data.ETag, versionId: data.VersionId };
+  } catch (err) {
+    if (err instanceof S3ServiceException && err.name === 'NoSuchKey') {
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+/** Get the ACL of an object, or undefined if it cannot be read. */
+const keyAcl = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+) => {
+  try {
+    return await client.send(new GetObjectAclCommand({
+      Bucket: bucket,
+      Key: key
+    }));
+  } catch (err) {
+    if (err instanceof S3ServiceException && UNREADABLE_ACL_ERRORS.includes(err.name)) {
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+/**
+ * Tag or delete the version a copy in place left behind, which a lifecycle rule
+ * for current versions never expires. The copy has the same contents, so the
+ * version left behind is tagged as old whether the key was tagged or restored.
+ */
+const noncurrentVersionHandled = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  versionId: string,
+  tags: Tag[],
+  options: CleanupOptions,
+) => {
+  switch (options.noncurrent) {
+    case 'tag':
+      await client.send(new PutObjectTaggingCommand({
+        Bucket: bucket,
+        Key: key,
+        VersionId: versionId,
+        Tagging: { TagSet: withOldTag(tags, options.tag) }
+      }));
+      break;
+    case 'delete':
+      await client.send(new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        VersionId: versionId
+      }));
+      break;
+    case 'keep':
+      break;
+  }
+};
+
+/**
+ * Copy an object over itself with new metadata and tags, carrying over all its
+ * other properties. The copy also updates its last modified date, so the date
+ * the object was published is kept in its metadata.
+ */
+const keyCopiedInPlace = async (
   client: S3Client,
   bucket: string,
-  key: string
+  key: string,
+  options: CleanupOptions,
+  update: (properties: CopyProperties) => CopyProperties | Promise<CopyProperties>,
+  tags: Tag[],
 ) => {
-  // first lookup metadata and content-type
+  // first lookup all the properties of the object
   const data = await client.send(new HeadObjectCommand({
     Bucket: bucket,
     Key: key
   }));
-  // perform a copy action to update the last modified action while adding the tag
-  await client.send(new CopyObjectCommand({
+  const acl = await keyAcl(client, bucket, key);
+  const publishedAt = data.Metadata?.[PUBLISHED_AT] ?? data.LastModified?.toISOString();
+  const properties = await update({
+    ...copiedProperties(data, acl),
+    Metadata: { ...data.Metadata, ...(publishedAt !== undefined ? { [PUBLISHED_AT]: publishedAt } : {}) }
+  });
+  // record the version left behind so that a run stopped before it was handled can resume
+  const replaced: Record<string, string> = options.versioned && options.noncurrent !== 'keep' && data.VersionId !== undefined
+    ? { [REPLACED_VERSION]: data.VersionId } : {};
+  const copied = await copyInPlace(client, bucket, key, data.ContentLength ?? 0, data.ETag, {
+    ...properties,
+    Metadata: { ...properties.Metadata, ...replaced },
+    Tagging: encodeTagging(tags)
+  }, options.partSize);
+  const leftBehind = options.versioned ? versionLeftBehind(data.VersionId, copied) : undefined;
+  if (leftBehind !== undefined) {
+    await noncurrentVersionHandled(client, bucket, key, leftBehind, tags, options);
+  }
+};
+
+/**
+ * Handle the version that the last copy in place of a key left behind, unless it
+ * already has been. A run that stopped between the copy and handling the version
+ * left behind, or whose key is retried, finds the key already tagged or restored
+ * and does not copy it again, so this is its only chance to pick the version up.
+ */
+const noncurrentVersionResumed = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+) => {
+  if (!options.versioned || options.noncurrent === 'keep') {
+    return;
+  }
+  const data = await client.send(new HeadObjectCommand({
     Bucket: bucket,
-    Key: key,
-    CopySource: `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`,
-    ContentType: data.ContentType,
-    CacheControl: data.CacheControl ?? 'max-age=0, stale-while-revalidate=86400',
-    ContentEncoding: data.ContentEncoding,
-    ContentDisposition: data.ContentDisposition,
-    ContentLanguage: data.ContentLanguage,
-    MetadataDirective: 'REPLACE',
-    Metadata: {
-      ...data.Metadata ?? {},
-      'old-at': (new Date()).toISOString() // we must add something to the metadata
-    },
-    TaggingDirective: 'REPLACE',
-    Tagging: 'old=true'
+    Key: key
   }));
+  const leftBehind = versionLeftBehind(data.Metadata?.[REPLACED_VERSION], data.VersionId);
+  if (leftBehind === undefined) {
+    return;
+  }
+  let tags: Tag[];
+  try {
+    const tagging = await client.send(new GetObjectTaggingCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: leftBehind
+    }));
+    tags = tagging.TagSet ?? [];
+  } catch (err) {
+    if (err instanceof S3ServiceException && MISSING_VERSION_ERRORS.includes(err.name)) {
+      // already deleted
+      return;
+    }
+    throw err;
+  }
+  if (options.noncurrent === 'delete' || !hasOldTag(tags, options.tag)) {
+    await noncurrentVersionHandled(client, bucket, key, leftBehind, tags, options);
+  }
 };
 
-/** Check if an object is tagged as old. */
-const isKeyTaggedAsOld = async (
+/** Where to redirect an old page to, the same page in the current version if it exists or else the folder. */
+const redirectLocation = async (
   client: S3Client,
   bucket: string,
+  redirect: OldRedirect,
   key: string,
-): Promise<boolean> => {
+) => {
+  const target = currentKey(redirect, key);
+  return target !== undefined && await headObject(client, bucket, target) !== undefined ? `/${target}` : folderRoot(redirect);
+};
+
+/**
+ * Tag an object as old, keeping its existing tags, and update its last modified
+ * date. With a redirect, HTML pages also redirect to the current version.
+ */
+const keyTaggedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+  tags: Tag[],
+  redirect?: OldRedirect,
+) => {
+  await keyCopiedInPlace(client, bucket, key, options, async (properties) => {
+    const tagged = {
+      ...properties,
+      Metadata: {
+        ...properties.Metadata,
+        'old-at': (new Date()).toISOString() // we must add something to the metadata
+      }
+    };
+    if (redirect && isHtml(key, properties.ContentType)) {
+      return withOldRedirect(tagged, await redirectLocation(client, bucket, redirect, key));
+    }
+    return tagged;
+  }, withOldTag(tags, options.tag));
+};
+
+/** Remove the old tag, old-at metadata and any redirect to the current version from an object, keeping its other tags. */
+const keyRestored = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+  tags: Tag[],
+) => {
+  await keyCopiedInPlace(client, bucket, key, options, (properties) => {
+    const { 'old-at': _oldAt, ...metadata } = properties.Metadata ?? {};
+    return withoutOldRedirect({ ...properties, Metadata: metadata });
+  }, withoutOldTag(tags, options.tag));
+};
+
+/** Get the tags of an object. */
+const keyTags = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+): Promise<Tag[]> => {
   const tags = await client.send(new GetObjectTaggingCommand({
     Bucket: bucket,
     Key: key
   }));
+  return tags.TagSet ?? [];
+};
 
-  return tags.TagSet?.some((tag) => tag.Key === 'old' && tag.Value === 'true') ?? false;
+/** Check if an object is tagged as old. */
+const isKeyTaggedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+): Promise<boolean> => {
+  return hasOldTag(await keyTags(client, bucket, key), options.tag);
 };
 
-/** Tag all objects in a prefix as old, updating their last modified date. */
-const prefixTaggedAsOld = async (
+/** Tag an object as old unless it already is, returning true if it was tagged. */
+const keyResumedAsOld = async (
   client: S3Client,
   bucket: string,
-  prefix: string,
-  parallel: number,
+  key: string,
+  options: CleanupOptions,
+  redirect?: OldRedirect,
 ) => {
-  const tagger = function* (list: ListObjectsOutput) {
-    if (list.Contents) {
-      for (const o of list.Contents) {
-        if (o.Key) {
-          yield keyTaggedAsOld(client, bucket, o.Key);
-        }
-      }
-    }
-  };
+  const tags = await keyTags(client, bucket, key);
+  if (hasOldTag(tags, options.tag)) {
+    await noncurrentVersionResumed(client, bucket, key, options);
+    return false;
+  }
+  await keyTaggedAsOld(client, bucket, key, options, tags, redirect);
+  return true;
+};
 
-  let marker: string | undefined;
-  let isTruncated = true;
+/** Remove the old tag from an object if it has it, returning true if it was restored. */
+const keyRestoredIfOld = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+) => {
+  const tags = await keyTags(client, bucket, key);
+  if (!hasOldTag(tags, options.tag)) {
+    await noncurrentVersionResumed(client, bucket, key, options);
+    return false;
+  }
+  await keyRestored(client, bucket, key, options, tags);
+  return true;
+};
 
-  while (isTruncated) {
-    const data = await client.send(new ListObjectsCommand({
-      Bucket: bucket,
-      Prefix: prefix,
-      Marker: marker
-    }));
+/** Check if an object is not tagged as old, used to plan a dry run. */
+const isKeyNotTaggedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+) => {
+  return !await isKeyTaggedAsOld(client, bucket, key, options);
+};
 
-    const tasks = parallelGenerator(parallel, tagger(data));
-    let result = await tasks.next();
-    while (!result.done) {
-      result = await tasks.next();
+/**
+ * Run a task for a key within the shared limit, retrying it when it fails with
+ * a retryable error. Throttling lowers the limit and successes raise it again.
+ */
+const withLimitAndRetry = async <T>(
+  options: CleanupOptions,
+  key: string,
+  counts: RetryCounts,
+  task: () => Promise<T>,
+): Promise<T> => {
+  const result = await withRetry(() => options.limit(task), {
+    retries: options.retries,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    onRetry: (err, attempt, delayMs) => {
+      const name = err instanceof Error ? err.name : String(err);
+      counts.retries++;
+      if (isThrottlingError(err)) {
+        counts.throttles++;
+        options.limit.throttled();
+        options.log.warning(`Throttled by ${name} on ${key}, parallelism lowered to ${options.limit.current()}`);
+      }
+      options.log.info(`Retrying ${key} after ${name} in ${delayMs}ms, retry ${attempt} of ${options.retries}`);
     }
+  });
+  options.limit.succeeded();
+  return result;
+};
 
-    isTruncated = data.IsTruncated ?? false;
-    marker = data.NextMarker ?? data.Contents?.at(-1)?.Key;
+/**
+ * Stream the pages of a listing, the next page is requested as soon as the
+ * current one arrives so it is ready by the time it is needed. `continuation`
+ * gives the fields that request the page after a page, or undefined after the last.
+ */
+const listPages = async function* <C, O>(
+  fetchPage: (continuation: C | undefined) => Promise<O>,
+  continuation: (data: O) => C | undefined,
+) {
+  let page: Promise<O> | undefined = fetchPage(undefined);
+  while (page) {
+    const data: O = await page;
+    const next = continuation(data);
+    page = next !== undefined ? fetchPage(next) : undefined;
+    // a failure is raised when the page is awaited, not while this one is consumed
+    page?.catch(() => undefined);
+    yield data;
   }
 };
 
-/** Checks if the first key in a prefix has been tagged as old. */
-const isPrefixTaggedAsOld = async (
+/** Stream the objects in a prefix across pages, fetching the next page while the current one is consumed. */
+const listObjects = async function* (
   client: S3Client,
   bucket: string,
-  prefix: string
-): Promise<boolean> => {
-  const list = await client.send(new ListObjectsCommand({
+  prefix: string,
+) {
+  const pages = listPages((fields: Pick<ListObjectsV2Request, 'ContinuationToken'> | undefined) => client.send(new ListObjectsV2Command({
     Bucket: bucket,
     Prefix: prefix,
-    MaxKeys: 1
-  }));
-  const key = list.Contents?.[0]?.Key;
-  return key != null && await isKeyTaggedAsOld(client, bucket, key);
+    ...fields
+  })), (data) => data.IsTruncated && data.NextContinuationToken ? { ContinuationToken: data.NextContinuationToken } : undefined);
+  for await (const data of pages) {
+    yield* data.Contents ?? [];
+  }
 };
 
-/** List all versions of a folder. */
-const listVersions = async (
+/**
+ * Apply an update, such as tagging as old, to all objects in a prefix. The
+ * update returns false when an object needed no change so that only the
+ * changed objects are counted, while the size counts every object.
+ *
+ * A failure aborts the folder, and the keys already started are waited for
+ * before it is raised so that nothing is still changing the prefix after.
+ */
+const prefixUpdated = async (
   client: S3Client,
   bucket: string,
-  folder: string,
-) => {
-  let versions: Version[] = [];
-
-  let marker: string | undefined;
-  let isTruncated = true;
-  const trimPrefix = (c: CommonPrefix) => c.Prefix?.slice(folder.length + 1, -1) ?? '';
+  prefix: string,
+  options: CleanupOptions,
+  update: (client: S3Client, bucket: string, key: string, options: CleanupOptions) => Promise<boolean>,
+): Promise<PrefixStats & { size: PrefixSize; failures?: KeyFailure[] }> => {
+  const stats: PrefixStats = { objects: 0, bytes: 0 };
+  const size = emptySize();
+  const counts: RetryCounts = { retries: 0, throttles: 0 };
+  const failures: KeyFailure[] = [];
+  const abort = options.abort ?? new AbortController();
+  const tagger = async (o: { Key?: string; Size?: number }) => {
+    const key = o.Key;
+    if (!key || abort.signal.aborted) {
+      return;
+    }
+    addFile(size, { key, bytes: o.Size ?? 0 }, options.largestFiles);
+    try {
+      if (await withLimitAndRetry(options, key, counts, () => update(options.keyClient, bucket, key, options))) {
+        stats.objects++;
+        stats.bytes += o.Size ?? 0;
+      }
+    } catch (err) {
+      if (!options.continueOnError) {
+        abort.abort(err);
+        return;
+      }
+      const failure = {
+        key,
+        name: err instanceof Error ? err.name : 'Error',
+        message: err instanceof Error ? err.message : String(err)
+      };
+      options.log.error(`Failed to update ${key}, continuing with the rest: ${failure.name}: ${failure.message}`);
+      failures.push(failure);
+    }
+  };
 
-  while (isTruncated) {
-    const data = await client.send(new ListObjectsCommand({
-      Bucket: bucket,
-      Prefix: `${folder}/`,
-      Delimiter: '/',
-      Marker: marker
-    }));
-    versions = [
-      ...versions,
-      ...((data.CommonPrefixes ?? []).map(trimPrefix).map(extractVersion).filter((v) => v != null))
-    ];
+  const objects = async function* () {
+    for await (const o of listObjects(client, bucket, prefix)) {
+      if (abort.signal.aborted) {
+        return;
+      }
+      yield o;
+    }
+  };
 
-    isTruncated = data.IsTruncated ?? false;
-    marker = data.NextMarker;
+  const tasks = parallelMap(options.parallel, objects(), tagger);
+  let result = await tasks.next();
+  while (!result.done) {
+    result = await tasks.next();
   }
-  return versions;
+  abort.signal.throwIfAborted();
+  if (counts.retries > 0) {
+    options.log.info(`Retried ${counts.retries} requests in ${prefix}, ${counts.throttles} of them throttled`);
+  }
+  return { ...stats, size, ...(failures.length > 0 ? { failures } : {}) };
 };
 
-/** Find all versions older than the current release and tag them as old. */
-const tagOldVersions = async (
+/** List every version of the objects in a prefix, fetching the next page while the current one is consumed. */
+const listObjectVersions = async function* (
   client: S3Client,
   bucket: string,
-  folder: string,
-  parallel: number,
-) => {
-  const ptrData = await client.send(new HeadObjectCommand({
+  prefix: string,
+) {
+  const pages = listPages((fields: Pick<ListObjectVersionsRequest, 'KeyMarker' | 'VersionIdMarker'> | undefined) => client.send(new ListObjectVersionsCommand({
     Bucket: bucket,
-    Key: `${folder}/index.html`
-  }));
-  const currentVersion = extractVersion(ptrData.Metadata?.pointer);
-  if (!currentVersion) {
-    throw new Error(`No current version pointer found for ${folder}`);
+    Prefix: prefix,
+    ...fields
+  })), (data) => data.IsTruncated ? { KeyMarker: data.NextKeyMarker, VersionIdMarker: data.NextVersionIdMarker } : undefined);
+  for await (const data of pages) {
+    yield* data.Versions ?? [];
   }
-  core.info(`Current version: ${currentVersion.version}`);
-  let versionPrefixes = await listVersions(client, bucket, folder);
-  core.info(`Found ${versionPrefixes.length} version prefixes`);
-  versionPrefixes = versionPrefixes.filter((v) => compareVersions(v, currentVersion) < 0);
-  for (const v of versionPrefixes) {
-    const prefix = `${folder}/${v.version}/`;
-    if (!await isPrefixTaggedAsOld(client, bucket, prefix)) {
-      core.info(`Tagging ${prefix} as old`);
-      await prefixTaggedAsOld(client, bucket, prefix, parallel);
+};
+
+/** Count the objects and bytes held in a prefix, keeping the `largestFiles` largest. */
+const prefixSize = async (
+  client: S3Client,
+  bucket: string,
+  prefix: string,
+  largestFiles: number,
+  versioned: boolean,
+): Promise<PrefixSize> => {
+  const size = emptySize();
+  if (!versioned) {
+    for await (const o of listObjects(client, bucket, prefix)) {
+      addFile(size, { key: o.Key ?? '', bytes: o.Size ?? 0 }, largestFiles);
+    }
+    return size;
+  }
+  for await (const v of listObjectVersions(client, bucket, prefix)) {
+    if (v.IsLatest) {
+      addFile(size, { key: v.Key ?? '', bytes: v.Size ?? 0 }, largestFiles);
+    } else {
+      addNoncurrent(size, v.Size ?? 0);
     }
   }
+  return size;
 };
 
-/** Get the bucket input */
-const inputBucket = () => {
-  const bucket = core.getInput('bucket');
-  if (!isValidGeneralPurposeBucketName(bucket)) {
-    throw new Error(`Invalid bucket name, got ${bucket}`);
+/**
+ * Add sizes to a report, with storage-report of every version the run did not
+ * already list. In a versioned bucket the versions changed by this run are
+ * always sized again, as they were listed without their noncurrent versions.
+ */
+const reportSized = async (
+  client: S3Client,
+  bucket: string,
+  report: CleanupReport,
+  options: CleanupOptions,
+) => {
+  for (const v of report.versions) {
+    const changed = !report.dryRun && (v.status === 'tagged' || v.status === 'restored');
+    const sized = (options.storageReport && (v.size === undefined || options.versioned)) || (options.versioned && changed);
+    // versions end with a slash, pointers are single keys which are not worth a request
+    if (sized && v.prefix.endsWith('/')) {
+      v.size = await prefixSize(client, bucket, v.prefix, options.largestFiles, options.versioned);
+      if (v.size.noncurrentObjects) {
+        options.log.info(`${v.prefix} has ${v.size.noncurrentObjects} noncurrent versions, ${formatBytes(v.size.noncurrentBytes ?? 0)}`);
+      }
+    }
   }
-  return bucket;
 };
 
-/** Get the folder input */
-const inputFolder = () => {
-  const folder = core.getInput('folder');
-  if (!isValidFolder(folder)) {
-    throw new Error(`Invalid folder name, got ${folder}`);
-  }
-  return folder;
+/** The key of the marker written once a version has been completely tagged as old. */
+const markerKey = (folder: string, version: string) => `${folder}/.cleanup/old/${version}`;
+
+/**
+ * The key of the marker present while a version may be partly tagged as old,
+ * written before it is tagged or restored and deleted once it is done, so that
+ * a run that stopped part way is not mistaken for one that never started.
+ */
+const partialMarkerKey = (folder: string, version: string) => `${folder}/.cleanup/partial/${version}`;
+
+/** Checks if a previous run finished tagging a version as old. */
+const isVersionMarkedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  version: string
+): Promise<boolean> => {
+  return await headObject(client, bucket, markerKey(folder, version)) !== undefined;
 };
 
-/** Get the parallel input */
-const inputParallel = () => {
-  const parallel = parseInt(core.getInput('parallel'), 10);
-  if (Number.isNaN(parallel) || parallel < 1) {
-    throw new Error(`Invalid integer value for parallel, got ${core.getInput('parallel')}`);
-  }
-  return parallel;
+/** Checks if a previous run stopped part way through tagging or restoring a version. */
+const isVersionPartlyTagged = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  version: string
+): Promise<boolean> => {
+  return await headObject(client, bucket, partialMarkerKey(folder, version)) !== undefined;
 };
 
-/** Run the program */
-const main = async () => {
-  const bucket = inputBucket();
-  const folder = inputFolder();
-  const parallel = inputParallel();
-  const client = new S3Client({ forcePathStyle: true });
-  await tagOldVersions(client, bucket, folder, parallel);
+/**
+ * Checks if the first key in a prefix has been tagged as old, which catches
+ * versions tagged without markers, by hand or by an earlier release.
+ */
+const isPrefixTaggedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  prefix: string,
+  options: CleanupOptions,
+): Promise<boolean> => {
+  const list = await client.send(new ListObjectsV2Command({
+    Bucket: bucket,
+    Prefix: prefix,
+    MaxKeys: 1
+  }));
+  const key = list.Contents?.[0]?.Key;
+  return key != null && await isKeyTaggedAsOld(client, bucket, key, options);
+};
+
+/**
+ * Write a marker, tagged so that it expires with the version it marks. An
+ * existing marker is left as it is rather than replaced, which in a versioned
+ * bucket would leave its version behind.
+ */
+const markerWritten = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+) => {
+  try {
+    await client.send(new PutObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Body: JSON.stringify({ markedAt: (new Date()).toISOString() }),
+      ContentType: 'application/json',
+      Tagging: encodeTagging([{ Key: options.tag.key, Value: options.tag.value }]),
+      IfNoneMatch: '*'
+    }));
+  } catch (err) {
+    if (!isConditionFailed(err)) {
+      throw err;
+    }
+  }
+};
+
+/** Delete a marker if it exists, deleting its version so that a versioned bucket keeps neither it nor a delete marker. */
+const markerDeleted = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  options: CleanupOptions,
+) => {
+  const marker = await headObject(client, bucket, key);
+  if (marker) {
+    await client.send(new DeleteObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: options.versioned ? marker.VersionId : undefined
+    }));
+  }
+};
+
+/**
+ * Get when the first key in a prefix was published, from the date recorded by
+ * the action's copies or else its last modified date, which they change.
+ */
+const prefixPublishedAt = async (
+  client: S3Client,
+  bucket: string,
+  prefix: string
+): Promise<Date | undefined> => {
+  const list = await client.send(new ListObjectsV2Command({
+    Bucket: bucket,
+    Prefix: prefix,
+    MaxKeys: 1
+  }));
+  const first = list.Contents?.[0];
+  if (first?.Key === undefined) {
+    return undefined;
+  }
+  const recorded = Date.parse((await headObject(client, bucket, first.Key))?.Metadata?.[PUBLISHED_AT] ?? '');
+  return Number.isNaN(recorded) ? first.LastModified : new Date(recorded);
+};
+
+/** Read the version a folder's pointer refers to, or undefined if there is no pointer. */
+const readPointer = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  pointer: PointerOptions,
+) => {
+  const key = `${folder}/${pointer.key}`;
+  switch (pointer.source) {
+    case 'metadata':
+      return (await headObject(client, bucket, key))?.Metadata?.pointer;
+    case 'redirect': {
+      const location = (await headObject(client, bucket, key))?.WebsiteRedirectLocation;
+      return location ? redirectVersion(folder, location) : undefined;
+    }
+    case 'json': {
+      const object = await objectBody(client, bucket, key);
+      return object ? manifestVersion(object.body, pointer.field) : undefined;
+    }
+    case 'file':
+      return (await objectBody(client, bucket, key))?.body.trim();
+  }
+};
+
+/** Find the current version of a folder from the current-version input or the pointer, logging which was used. */
+const currentVersionOf = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+) => {
+  const source = options.currentVersion !== undefined ? 'the current-version input' : describePointer(folder, options.pointer);
+  const value = options.currentVersion ?? await readPointer(client, bucket, folder, options.pointer);
+  const version = options.scheme.extract(value);
+  if (version) {
+    options.log.info(`Current version of ${folder} from ${source}: ${version.version}`);
+  } else if (value !== undefined) {
+    options.log.warning(`Ignoring ${value} from ${source} as it is not a recognised version name`);
+  }
+  return version;
+};
+
+/**
+ * Collect the versions that must never be tagged in a folder, those referenced by
+ * the alias pointers and those in the protected-versions input, with why each is protected.
+ */
+const protectedVersionReasons = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+) => {
+  const reasons = new Map<string, string[]>();
+  const protect = (version: string, reason: string) => {
+    reasons.set(version, [ ...reasons.get(version) ?? [], reason ]);
+  };
+  for (const key of options.aliasKeys) {
+    const pointer = { ...options.pointer, key };
+    const value = await readPointer(client, bucket, folder, pointer);
+    const version = options.scheme.extract(value);
+    if (version) {
+      options.log.info(`Protecting ${version.version} in ${folder} as it is referenced by ${describePointer(folder, pointer)}`);
+      protect(version.version, `referenced by ${folder}/${key}`);
+    } else if (value !== undefined) {
+      options.log.warning(`Ignoring ${value} from ${describePointer(folder, pointer)} as it is not a recognised version name`);
+    }
+  }
+  for (const version of options.protectedVersions) {
+    protect(version, 'listed in protected-versions');
+  }
+  return reasons;
+};
+
+/**
+ * When the pointer of a folder last moved, which is the latest that any version
+ * before the current version was superseded, or undefined if there is no grace
+ * period or the time is unknown.
+ */
+const pointerMovedAt = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+) => {
+  if (options.retention.gracePeriodMinutes === 0) {
+    return undefined;
+  }
+  if (options.currentVersion !== undefined) {
+    options.log.warning(`The grace period does not apply to ${folder} as the current version is not read from the pointer`);
+    return undefined;
+  }
+  return (await headObject(client, bucket, `${folder}/${options.pointer.key}`))?.LastModified;
+};
+
+/** List all versions of a folder, and the prefixes that the version scheme does not recognise. */
+const listVersions = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  scheme: VersionScheme,
+) => {
+  const versions: { version: string }[] = [];
+  const unrecognised: string[] = [];
+  const keys: _Object[] = [];
+
+  let continuationToken: string | undefined;
+  let isTruncated = true;
+  const trimPrefix = (c: CommonPrefix) => c.Prefix?.slice(folder.length + 1, -1) ?? '';
+
+  while (isTruncated) {
+    const data = await client.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: `${folder}/`,
+      Delimiter: '/',
+      ContinuationToken: continuationToken
+    }));
+    for (const name of (data.CommonPrefixes ?? []).map(trimPrefix)) {
+      const version = scheme.extract(name);
+      if (version) {
+        versions.push(version);
+      } else if (name !== '.cleanup') {
+        unrecognised.push(name);
+      }
+    }
+    keys.push(...data.Contents ?? []);
+
+    isTruncated = data.IsTruncated ?? false;
+    continuationToken = data.NextContinuationToken;
+  }
+  versions.sort((a, b) => scheme.compare(a, b));
+  return { versions, unrecognised, keys };
+};
+
+/** Report prefixes that are not versions, so that they are not silently left alone. */
+const unrecognisedReports = (log: Logger, folder: string, names: string[]): VersionReport[] => names.map((version) => {
+  const prefix = `${folder}/${version}/`;
+  log.warning(`Skipping ${prefix} as it is not a recognised version name`);
+  return { version, prefix, status: 'unrecognised' };
+});
+
+/**
+ * Tag a version prefix as old, or only count the objects to tag in a dry run.
+ * Objects a previous run already tagged are skipped so an interrupted run is
+ * resumed, and the version is marked as old once every object is tagged.
+ */
+const versionTaggedAsOld = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  version: string,
+  options: CleanupOptions,
+  redirect?: OldRedirect,
+): Promise<VersionReport> => {
+  const prefix = `${folder}/${version}/`;
+  if (options.dryRun) {
+    const stats = await prefixUpdated(client, bucket, prefix, options, isKeyNotTaggedAsOld);
+    if (stats.objects === 0) {
+      options.log.info(`Already tagged ${prefix} as old`);
+      return { version, prefix, status: 'old', size: stats.size };
+    }
+    options.log.info(`Would tag ${prefix} as old (${stats.objects} objects, ${stats.bytes} bytes)`);
+    return { version, prefix, status: 'tagged', ...stats };
+  } else {
+    options.log.info(`Tagging ${prefix} as old`);
+    await markerWritten(client, bucket, partialMarkerKey(folder, version), options);
+    const stats = await prefixUpdated(client, bucket, prefix, options, (c, b, key, o) => keyResumedAsOld(c, b, key, o, redirect));
+    if (stats.failures) {
+      // without the marker the next run lists the version again and retries the failed keys
+      options.log.warning(`Not marking ${prefix} as old as ${stats.failures.length} of its objects failed`);
+    } else {
+      await markerWritten(client, bucket, markerKey(folder, version), options);
+      await markerDeleted(client, bucket, partialMarkerKey(folder, version), options);
+    }
+    return stats.objects === 0 && !stats.failures ? { version, prefix, status: 'old', size: stats.size } : { version, prefix, status: 'tagged', ...stats };
+  }
+};
+
+/** Remove the old tag from a version prefix, or only count the objects to restore in a dry run. */
+const versionRestored = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  version: string,
+  options: CleanupOptions,
+): Promise<VersionReport> => {
+  const prefix = `${folder}/${version}/`;
+  if (options.dryRun) {
+    const stats = await prefixUpdated(client, bucket, prefix, options, isKeyTaggedAsOld);
+    options.log.info(`Would restore ${prefix} (${stats.objects} objects, ${stats.bytes} bytes)`);
+    return { version, prefix, status: 'restored', ...stats };
+  } else {
+    options.log.info(`Restoring ${prefix}`);
+    // swap the markers first so an interrupted restore is neither mistaken for a completely
+    // tagged version nor forgotten, and is picked up again by the next run
+    await markerWritten(client, bucket, partialMarkerKey(folder, version), options);
+    await markerDeleted(client, bucket, markerKey(folder, version), options);
+    const stats = await prefixUpdated(client, bucket, prefix, options, keyRestoredIfOld);
+    if (!stats.failures) {
+      await markerDeleted(client, bucket, partialMarkerKey(folder, version), options);
+    }
+    return { version, prefix, status: 'restored', ...stats };
+  }
+};
+
+/**
+ * Report on every version, running them in the shared version budget so that
+ * the versions of every folder are worked on at once, but reporting them in
+ * order. Once a version fails the folder is aborted, so the versions yet to
+ * start are abandoned and those in progress stop at their next key, and the
+ * first failure is raised only once every version has stopped.
+ */
+const versionsReported = async <V extends { version: string }>(
+  options: CleanupOptions,
+  versions: V[],
+  versionReport: (v: V) => Promise<VersionReport>,
+) => {
+  const abort = options.abort ?? new AbortController();
+  const results = await Promise.allSettled(versions.map((v) => options.versionLimit(async () => {
+    abort.signal.throwIfAborted();
+    try {
+      return await versionReport(v);
+    } catch (err) {
+      abort.abort(err);
+      throw err;
+    }
+  })));
+  abort.signal.throwIfAborted();
+  return results.map((r) => (r as PromiseFulfilledResult<VersionReport>).value);
+};
+
+/**
+ * Checks if a folder has been retired, which tags its pointer as old but keeps
+ * the version it points to.
+ */
+const isFolderRetired = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+): Promise<boolean> => {
+  const pointerKey = `${folder}/${options.pointer.key}`;
+  return await headObject(client, bucket, pointerKey) !== undefined && await isKeyTaggedAsOld(client, bucket, pointerKey, options);
+};
+
+/** Find all versions older than the current release and tag them as old. */
+const tagOldVersions = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+): Promise<CleanupReport> => {
+  const { scheme } = options;
+  if (await isFolderRetired(client, bucket, folder, options)) {
+    // restoring its current version would leave it untagged once the lifecycle rule removes the pointer
+    options.log.warning(`Skipping ${folder} as it has been retired, its pointer ${options.pointer.key} is tagged as old`);
+    return { folder, currentVersion: '', dryRun: options.dryRun, versions: [], skipped: 'retired' };
+  }
+  const currentVersion = await currentVersionOf(client, bucket, folder, options);
+  const { versions: versionPrefixes, unrecognised, keys } = await listVersions(client, bucket, folder, scheme);
+  if (!currentVersion) {
+    if (versionPrefixes.length === 0 && unrecognised.length === 0 && keys.every((o) => o.Key === `${folder}/${options.auditKey}`)) {
+      // a retired folder once the lifecycle rule has removed it, which keeps being listed for its audit ledger
+      options.log.warning(`Skipping ${folder} as it has no pointer and nothing left but the action's own objects`);
+      return { folder, currentVersion: '', dryRun: options.dryRun, versions: [], skipped: 'empty' };
+    }
+    throw new Error(`No current version pointer found for ${folder}`);
+  }
+  options.log.info(`Found ${versionPrefixes.length} version prefixes in ${folder}`);
+  if (!versionPrefixes.some((v) => v.version === currentVersion.version)) {
+    // tagging against a version that does not exist would tag everything older than a typo
+    throw new Error(`Current version ${currentVersion.version} of ${folder} is not one of the versions found in ${folder}`);
+  }
+  const report: CleanupReport = {
+    folder,
+    currentVersion: currentVersion.version,
+    dryRun: options.dryRun,
+    versions: unrecognisedReports(options.log, folder, unrecognised)
+  };
+  const protectedReasons = await protectedVersionReasons(client, bucket, folder, options);
+  // protected versions do not use up the versions kept by count
+  const superseded = versionPrefixes
+    .filter((v) => scheme.compare(v, currentVersion) < 0 && !protectedReasons.has(v.version))
+    .map((v) => v.version);
+  const supersededAt = await pointerMovedAt(client, bucket, folder, options);
+  const now = new Date();
+  const versionReport = async (v: { version: string }): Promise<VersionReport> => {
+    const prefix = `${folder}/${v.version}/`;
+    const cmp = scheme.compare(v, currentVersion);
+    const reason = protectedReasons.get(v.version)?.join(', ');
+    if (cmp >= 0 || reason !== undefined) {
+      const mayBeTagged = options.verify ||
+        await isVersionMarkedAsOld(client, bucket, folder, v.version) ||
+        await isVersionPartlyTagged(client, bucket, folder, v.version) ||
+        await isPrefixTaggedAsOld(client, bucket, prefix, options);
+      const restored = mayBeTagged ? await versionRestored(client, bucket, folder, v.version, options) : undefined;
+      if (restored && restored.objects !== 0) {
+        // the pointer has moved back to a version that was already tagged
+        const live = cmp >= 0 ? `not older than the current version ${currentVersion.version}` : reason;
+        options.log.warning(`${prefix} was tagged as old but is ${live}`);
+        return { ...restored, reason };
+      } else if (cmp < 0) {
+        options.log.info(`Keeping ${prefix} as it is ${reason}`);
+        return { version: v.version, prefix, status: 'kept', reason };
+      } else {
+        return { version: v.version, prefix, status: cmp > 0 ? 'newer' : 'current', reason };
+      }
+    } else if (!options.verify && await isVersionMarkedAsOld(client, bucket, folder, v.version)) {
+      if (options.dryRun) {
+        options.log.info(`Already tagged ${prefix} as old`);
+      }
+      return { version: v.version, prefix, status: 'old' };
+    } else if (isKeptByCount(options.retention, superseded.length - 1 - superseded.indexOf(v.version))) {
+      const kept = `one of the ${options.retention.keepCount} most recent superseded versions`;
+      options.log.info(`Keeping ${prefix} as ${kept}`);
+      return { version: v.version, prefix, status: 'kept', reason: kept };
+    } else if (options.retention.keepDays > 0 && isKeptByAge(options.retention, await prefixPublishedAt(client, bucket, prefix), now)) {
+      const kept = `published within the last ${options.retention.keepDays} days`;
+      options.log.info(`Keeping ${prefix} as it was ${kept}`);
+      return { version: v.version, prefix, status: 'kept', reason: kept };
+    } else if (supersededAt && isInGracePeriod(options.retention, supersededAt, now)) {
+      const kept = `superseded within the last ${options.retention.gracePeriodMinutes} minutes`;
+      options.log.info(`Keeping ${prefix} as it was ${kept}, the pointer moved at ${supersededAt.toISOString()}`);
+      return { version: v.version, prefix, status: 'kept', reason: kept };
+    } else {
+      const redirect = options.redirectOld ? { folder, version: v.version, currentVersion: currentVersion.version } : undefined;
+      return await versionTaggedAsOld(client, bucket, folder, v.version, options, redirect);
+    }
+  };
+  report.versions.push(...await versionsReported(options, versionPrefixes, versionReport));
+  return report;
+};
+
+/**
+ * Tag everything in a folder as old, regardless of the current version, apart
+ * from the action's own objects and the audit ledger.
+ */
+const retireFolder = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+): Promise<CleanupReport> => {
+  const currentVersion = await currentVersionOf(client, bucket, folder, options);
+  options.log.info(`Retiring ${folder}${currentVersion ? ` including current version ${currentVersion.version}` : ''}`);
+  const { versions: versionPrefixes, unrecognised, keys } = await listVersions(client, bucket, folder, options.scheme);
+  options.log.info(`Found ${versionPrefixes.length} version prefixes in ${folder}`);
+  const holdsLedger = (name: string) => options.auditKey.startsWith(`${name}/`);
+  const report: CleanupReport = {
+    folder,
+    currentVersion: currentVersion?.version ?? '',
+    dryRun: options.dryRun,
+    versions: unrecognised.filter(holdsLedger).map((version) => {
+      const prefix = `${folder}/${version}/`;
+      options.log.warning(`Skipping ${prefix} as it holds the audit ledger`);
+      return { version, prefix, status: 'kept', reason: 'it holds the audit ledger' };
+    })
+  };
+  const versionReport = async (v: { version: string }): Promise<VersionReport> => {
+    const prefix = `${folder}/${v.version}/`;
+    if (!options.verify && await isVersionMarkedAsOld(client, bucket, folder, v.version)) {
+      if (options.dryRun) {
+        options.log.info(`Already tagged ${prefix} as old`);
+      }
+      return { version: v.version, prefix, status: 'old' };
+    } else {
+      return await versionTaggedAsOld(client, bucket, folder, v.version, options);
+    }
+  };
+  // prefixes that are not versions, such as alias folders, are tagged the same way
+  const prefixes = [ ...versionPrefixes, ...unrecognised.filter((name) => !holdsLedger(name)).map((version) => ({ version })) ];
+  report.versions.push(...await versionsReported(options, prefixes, versionReport));
+  // the pointers go last, and the main pointer after the aliases, so that an interrupted retirement still has a pointer to run against
+  const pointers = new Set([ 'index.html', ...options.aliasKeys ]);
+  const rank = (name: string) => {
+    if (name === options.pointer.key) {
+      return 2;
+    }
+    return pointers.has(name) ? 1 : 0;
+  };
+  const names = keys
+    .map((o) => ({ name: o.Key?.slice(folder.length + 1) ?? '', bytes: o.Size ?? 0 }))
+    .filter((k) => k.name !== '' && k.name !== options.auditKey)
+    .sort((a, b) => rank(a.name) - rank(b.name));
+  for (const { name, bytes } of names) {
+    options.abort?.signal.throwIfAborted();
+    const key = `${folder}/${name}`;
+    const stats: PrefixStats = { objects: 1, bytes };
+    const tags = await keyTags(client, bucket, key);
+    if (hasOldTag(tags, options.tag)) {
+      report.versions.push({ version: name, prefix: key, status: 'old' });
+    } else if (options.dryRun) {
+      options.log.info(`Would tag ${key} as old`);
+      report.versions.push({ version: name, prefix: key, status: 'tagged', ...stats });
+    } else {
+      options.log.info(`Tagging ${key} as old`);
+      await withLimitAndRetry(options, key, { retries: 0, throttles: 0 }, () => keyTaggedAsOld(options.keyClient, bucket, key, options, tags));
+      report.versions.push({ version: name, prefix: key, status: 'tagged', ...stats });
+    }
+  }
+  return report;
+};
+
+/** List the top level folders of a bucket. */
+const listFolders = async (
+  client: S3Client,
+  bucket: string,
+) => {
+  let folders: string[] = [];
+
+  let continuationToken: string | undefined;
+  let isTruncated = true;
+
+  while (isTruncated) {
+    const data = await client.send(new ListObjectsV2Command({
+      Bucket: bucket,
+      Delimiter: '/',
+      ContinuationToken: continuationToken
+    }));
+    folders = [
+      ...folders,
+      ...((data.CommonPrefixes ?? []).map((c) => c.Prefix?.slice(0, -1) ?? '').filter(isValidFolder))
+    ];
+
+    isTruncated = data.IsTruncated ?? false;
+    continuationToken = data.NextContinuationToken;
+  }
+  return folders;
+};
+
+/** Remove the old tag from a named version in a folder. */
+const restoreVersion = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+): Promise<CleanupReport> => {
+  if (!options.version) {
+    throw new Error('A version is required to restore');
+  }
+  const currentVersion = await currentVersionOf(client, bucket, folder, options);
+  const report: CleanupReport = {
+    folder,
+    currentVersion: currentVersion?.version ?? '',
+    dryRun: options.dryRun,
+    versions: []
+  };
+  const prefix = `${folder}/${options.version}/`;
+  const list = await client.send(new ListObjectsV2Command({
+    Bucket: bucket,
+    Prefix: prefix,
+    MaxKeys: 1
+  }));
+  if (!list.Contents?.length) {
+    throw new Error(`No objects found in ${prefix}`);
+  }
+  report.versions.push(await versionRestored(client, bucket, folder, options.version, options));
+  return report;
+};
+
+/** Clean up a folder according to the mode. */
+const cleanupFolder = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+) => {
+  switch (options.mode) {
+    case 'tag-old':
+      return tagOldVersions(client, bucket, folder, options);
+    case 'retire-folder':
+      return retireFolder(client, bucket, folder, options);
+    case 'restore':
+      return restoreVersion(client, bucket, folder, options);
+  }
+};
+
+/**
+ * Delete the version that a write of one of the action's own objects, such as
+ * the audit ledger or a lock, replaced in a versioned bucket. Nothing expires
+ * these versions, and a lock leaves one behind on every heartbeat.
+ */
+const replacedVersionDeleted = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  previous: string | undefined,
+  written: string | undefined,
+  options: CleanupOptions,
+) => {
+  const replaced = options.versioned ? versionLeftBehind(previous, written) : undefined;
+  if (replaced === undefined) {
+    return;
+  }
+  try {
+    await client.send(new DeleteObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: replaced
+    }));
+  } catch (err) {
+    // the write succeeded, the version left behind only takes up space
+    options.log.warning(`Failed to delete the version ${replaced} of ${key} replaced by this run: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+/**
+ * Append a record to a folder's audit ledger. S3 cannot append to an object, so
+ * the ledger is rewritten only if it is unchanged since it was read, and read
+ * again if another run got there first.
+ */
+const auditRecordAppended = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  record: AuditRecord,
+  options: CleanupOptions,
+) => {
+  const key = `${folder}/${options.auditKey}`;
+  for (let attempt = 1; ; attempt++) {
+    const ledger = await objectBody(client, bucket, key);
+    try {
+      const data = await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: appendRecord(ledger?.body ?? '', record),
+        ContentType: 'application/x-ndjson',
+        ...(ledger ? { IfMatch: ledger.etag } : { IfNoneMatch: '*' })
+      }));
+      await replacedVersionDeleted(client, bucket, key, ledger?.versionId, data.VersionId, options);
+      return;
+    } catch (err) {
+      if (!isConditionFailed(err) || attempt >= AUDIT_ATTEMPTS) {
+        throw err;
+      }
+      options.log.info(`${key} was changed by another run, appending again`);
+    }
+  }
+};
+
+/** Write a lease, only if the lock object does not exist or is unchanged since it was read. */
+const leaseWritten = async (
+  client: S3Client,
+  bucket: string,
+  key: string,
+  lease: Lease,
+  etag: string | undefined,
+) => {
+  const data = await client.send(new PutObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    Body: JSON.stringify(lease),
+    ContentType: 'application/json',
+    ...(etag !== undefined ? { IfMatch: etag } : { IfNoneMatch: '*' })
+  }));
+  return { etag: data.ETag, versionId: data.VersionId };
+};
+
+/**
+ * Take the lock of a folder, taking over a lease that has gone stale and waiting
+ * for one that has not. Returns the owner of the lock if it is still held by
+ * another run once the wait is over.
+ */
+const lockAcquired = async (
+  client: S3Client,
+  bucket: string,
+  folder: string,
+  options: CleanupOptions,
+): Promise<FolderLock | string> => {
+  const key = lockKey(folder);
+  const deadline = Date.now() + options.lock.waitMs;
+  for (;;) {
+    const lease = newLease(options.lock.owner, new Date(), options.lock.ttlMs);
+    const held = await objectBody(client, bucket, key);
+    const current = held ? parseLease(held.body) : undefined;
+    if (held && !isStale(current, new Date())) {
+      const owner = current?.owner ?? 'an unknown owner';
+      const wait = deadline - Date.now();
+      if (wait <= 0) {
+        return owner;
+      }
+      options.log.info(`Waiting for the lock on ${folder} held by ${owner} until ${current?.expiresAt}`);
+      await sleep(Math.min(wait, LOCK_POLL_MS));
+      continue;
+    }
+    try {
+      const written = await leaseWritten(client, bucket, key, lease, held ? held.etag : undefined);
+      if (held) {
+        options.log.warning(`Took over the stale lock on ${folder} from ${current?.owner ?? 'an unknown owner'}`);
+        await replacedVersionDeleted(client, bucket, key, held.versionId, written.versionId, options);
+      }
+      options.log.debug(`Locked ${folder} until ${lease.expiresAt}`);
+      return { folder, key, ...written, lease, lost: false };
+    } catch (err) {
+      if (!isConditionFailed(err)) {
+        throw err;
+      }
+      // another run wrote the lock first, look at its lease
+    }
+  }
+};
+
+/**
+ * Renew the lease of a lock, retrying failures that are likely to go away. The
+ * lock is only lost, and the folder's work aborted, when another run has taken
+ * it over or the lease expired before it could be renewed.
+ */
+const lockRenewed = async (
+  client: S3Client,
+  bucket: string,
+  lock: FolderLock,
+  abort: AbortController,
+  options: CleanupOptions,
+) => {
+  const lease = renewedLease(lock.lease, new Date(), options.lock.ttlMs);
+  const write = async () => {
+    try {
+      return await leaseWritten(client, bucket, lock.key, lease, lock.etag ?? '*');
+    } catch (err) {
+      // a retry fails the condition when the write it retries went through after all
+      const held = isConditionFailed(err) ? await objectBody(client, bucket, lock.key) : undefined;
+      const current = held ? parseLease(held.body) : undefined;
+      if (held && current?.owner === lease.owner && current.heartbeatAt === lease.heartbeatAt) {
+        return { etag: held.etag, versionId: held.versionId };
+      }
+      throw err;
+    }
+  };
+  try {
+    const written = await withRetry(write, { retries: options.retries, baseDelayMs: RETRY_BASE_DELAY_MS, maxDelayMs: RETRY_MAX_DELAY_MS });
+    await replacedVersionDeleted(client, bucket, lock.key, lock.versionId, written.versionId, options);
+    lock.etag = written.etag;
+    lock.versionId = written.versionId;
+    lock.lease = lease;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (!isConditionFailed(err) && !isStale(lock.lease, new Date())) {
+      options.log.warning(`Failed to renew the lock on ${lock.folder}, trying again at the next heartbeat: ${message}`);
+      return;
+    }
+    lock.lost = true;
+    options.log.error(`Lost the lock on ${lock.folder}: ${message}`);
+    abort.abort(new Error(`Lost the lock on ${lock.folder} while cleaning it up`));
+  }
+};
+
+/** Renew the lease of a lock a few times per ttl until stopped, returning the function that stops it. */
+const lockHeartbeat = (
+  client: S3Client,
+  bucket: string,
+  lock: FolderLock,
+  abort: AbortController,
+  options: CleanupOptions,
+) => {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let beat = Promise.resolve();
+  const schedule = () => {
+    timer = setTimeout(() => {
+      beat = lockRenewed(client, bucket, lock, abort, options).then(() => {
+        if (!stopped && !lock.lost) {
+          schedule();
+        }
+      });
+    }, options.lock.ttlMs / 3);
+  };
+  schedule();
+  return async () => {
+    stopped = true;
+    clearTimeout(timer);
+    await beat;
+  };
+};
+
+/** Release a lock, unless another run has taken it over. */
+const lockReleased = async (
+  client: S3Client,
+  bucket: string,
+  lock: FolderLock,
+  options: CleanupOptions,
+) => {
+  if (lock.lost) {
+    return;
+  }
+  try {
+    const held = await headObject(client, bucket, lock.key);
+    if (held?.ETag === lock.etag) {
+      // deleting the version itself leaves neither it nor a delete marker behind in a versioned bucket
+      await client.send(new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: lock.key,
+        VersionId: options.versioned ? lock.versionId : undefined
+      }));
+      options.log.debug(`Unlocked ${lock.folder}`);
+    }
+  } catch (err) {
+    // the lease expires by itself, so a lock that cannot be released only delays other runs
+    options.log.warning(`Failed to release the lock on ${lock.folder}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+};
+
+/** Clean up each folder, collecting failures rather than stopping at the first. */
+const cleanupFolders = async (
+  client: S3Client,
+  bucket: string,
+  folders: string[],
+  options: CleanupOptions,
+) => {
+  const cleanupAudited = async (folder: string, abort: AbortController): Promise<FolderResult> => {
+    const startedAt = new Date();
+    let result: FolderResult;
+    try {
+      const report = await cleanupFolder(client, bucket, folder, { ...options, abort });
+      await reportSized(client, bucket, report, options);
+      result = { report };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      options.log.error(`Failed to clean up ${folder}: ${message}`);
+      result = { failure: { folder, message }};
+    }
+    if (options.auditKey !== '' && !options.dryRun && result.report?.skipped === undefined) {
+      const record = auditRecord(options.run, options.mode, folder, result, startedAt, new Date());
+      try {
+        await auditRecordAppended(client, bucket, folder, record, options);
+      } catch (err) {
+        // the changes were made, but without a record the folder is reported as failed
+        const message = `Failed to write the audit record to ${folder}/${options.auditKey}: ${err instanceof Error ? err.message : String(err)}`;
+        options.log.error(message);
+        return { report: result.report, failure: result.failure ?? { folder, message }};
+      }
+    }
+    return result;
+  };
+  const cleanup = async (folder: string): Promise<FolderResult> => {
+    const abort = new AbortController();
+    // a dry run changes nothing, so there is nothing to protect
+    if (!options.lock.enabled || options.dryRun) {
+      return cleanupAudited(folder, abort);
+    }
+    let lock: FolderLock | string;
+    try {
+      lock = await lockAcquired(client, bucket, folder, options);
+    } catch (err) {
+      const message = `Failed to lock ${folder}: ${err instanceof Error ? err.message : String(err)}`;
+      options.log.error(message);
+      return { failure: { folder, message }};
+    }
+    if (typeof lock === 'string') {
+      const message = `${folder} is locked by ${lock}`;
+      if (options.lock.held === 'fail') {
+        options.log.error(message);
+        return { failure: { folder, message }};
+      }
+      options.log.warning(`Skipping ${folder}, it is locked by ${lock}`);
+      return { locked: { folder, owner: lock }};
+    }
+    const stopHeartbeat = lockHeartbeat(client, bucket, lock, abort, options);
+    let result: FolderResult;
+    try {
+      result = await cleanupAudited(folder, abort);
+    } finally {
+      await stopHeartbeat();
+      await lockReleased(client, bucket, lock, options);
+    }
+    if (lock.lost) {
+      return { report: result.report, failure: result.failure ?? { folder, message: `Lost the lock on ${folder} while cleaning it up` }};
+    }
+    return result;
+  };
+  const tasks = function* () {
+    for (const folder of folders) {
+      yield cleanup(folder);
+    }
+  };
+
+  const reports: CleanupReport[] = [];
+  const failures: FolderFailure[] = [];
+  const locked: LockedFolder[] = [];
+  for await (const result of parallelGenerator(options.parallel, tasks())) {
+    if (result.report) {
+      reports.push(result.report);
+    }
+    if (result.failure) {
+      failures.push(result.failure);
+    }
+    if (result.locked) {
+      locked.push(result.locked);
+    }
+  }
+  // results arrive in completion order, report them in folder order
+  reports.sort((a, b) => folders.indexOf(a.folder) - folders.indexOf(b.folder));
+  return { reports, failures, locked };
+};
+
+/** Publish the reports as outputs and a summary. */
+const publishReports = async (
+  frontend: Frontend,
+  reports: CleanupReport[],
+  failures: FolderFailure[],
+  locked: LockedFolder[],
+  options: CleanupOptions,
+) => {
+  const storage = storageSummary(reports, options.largestFiles);
+  for (const line of storageLines(storage)) {
+    frontend.info(line);
+  }
+  for (const [ name, value ] of Object.entries({ ...reportOutputs(reports, failures, locked), ...storageOutputs(reports, storage) })) {
+    frontend.setOutput(name, value);
+  }
+  await frontend.writeSummary(reports, failures);
+};
+
+/** Get the bucket input */
+const inputBucket = (inputs: Inputs) => {
+  const bucket = inputs.getInput('bucket');
+  if (!isValidGeneralPurposeBucketName(bucket)) {
+    throw new Error(`Invalid bucket name, got ${bucket}`);
+  }
+  return bucket;
+};
+
+/** Get the folder input */
+const inputFolder = (inputs: Inputs) => {
+  const folder = inputs.getInput('folder');
+  if (!isValidFolder(folder)) {
+    throw new Error(`Invalid folder name, got ${folder}`);
+  }
+  return folder;
+};
+
+/** Get the folders input */
+const inputFolderPatterns = (inputs: Inputs) => {
+  const patterns = parseFolderPatterns(inputs.getInput('folders'));
+  for (const pattern of patterns) {
+    if (!isValidFolderPattern(pattern)) {
+      throw new Error(`Invalid folder pattern, got ${pattern}`);
+    }
+  }
+  return patterns;
+};
+
+/** Get the folders to clean up from either the folder or folders input */
+const inputFolders = async (frontend: Frontend, client: S3Client, bucket: string) => {
+  const patterns = inputFolderPatterns(frontend);
+  if (patterns.length === 0) {
+    return [ inputFolder(frontend) ];
+  }
+  if (frontend.getInput('folder') !== '') {
+    throw new Error('Only one of folder and folders can be given');
+  }
+  const folders = matchFolders(await listFolders(client, bucket), patterns);
+  frontend.info(`Found ${folders.length} folders matching ${patterns.join(', ')}`);
+  return folders;
+};
+
+/** Get an integer input that must be at least `min` */
+const inputInteger = (inputs: Inputs, name: string, min: number) => {
+  const value = parseInt(inputs.getInput(name), 10);
+  if (Number.isNaN(value) || value < min) {
+    throw new Error(`Invalid integer value for ${name}, got ${inputs.getInput(name)}`);
+  }
+  return value;
+};
+
+/** Get a boolean input, accepting the same values as the YAML 1.2 core schema */
+const inputBoolean = (inputs: Inputs, name: string) => {
+  const value = inputs.getInput(name);
+  if ([ 'true', 'True', 'TRUE' ].includes(value)) {
+    return true;
+  } else if ([ 'false', 'False', 'FALSE' ].includes(value)) {
+    return false;
+  }
+  throw new Error(`Invalid boolean value for ${name}, expected true or false, got ${value}`);
+};
+
+/** Get the max-requests-per-second input, 0 for no limit */
+const inputMaxRequestsPerSecond = (inputs: Inputs) => {
+  return inputInteger(inputs, 'max-requests-per-second', 0);
+};
+
+/** Get the parallel input */
+const inputParallel = (inputs: Inputs) => {
+  return inputInteger(inputs, 'parallel', 1);
+};
+
+/** Get the max-retries input */
+const inputRetries = (inputs: Inputs) => {
+  return inputInteger(inputs, 'max-retries', 0);
+};
+
+/** Get the part-size input, converted from MiB to bytes */
+const inputPartSize = (inputs: Inputs) => {
+  const partSize = inputInteger(inputs, 'part-size', 5) * 1024 * 1024;
+  if (partSize > MAX_PART_SIZE) {
+    throw new Error(`Invalid part-size, must be at most ${MAX_PART_SIZE / 1024 / 1024}, got ${inputs.getInput('part-size')}`);
+  }
+  return partSize;
+};
+
+/** Get the keep-count, keep-days and grace-period inputs */
+const inputRetention = (inputs: Inputs): RetentionPolicy => {
+  return {
+    keepCount: inputInteger(inputs, 'keep-count', 0),
+    keepDays: inputInteger(inputs, 'keep-days', 0),
+    gracePeriodMinutes: inputInteger(inputs, 'grace-period', 0)
+  };
+};
+
+/** Get the mode input */
+const inputMode = (inputs: Inputs): Mode => {
+  const mode = inputs.getInput('mode');
+  if (mode !== 'tag-old' && mode !== 'retire-folder' && mode !== 'restore') {
+    throw new Error(`Invalid mode, expected tag-old, retire-folder or restore, got ${mode}`);
+  }
+  return mode;
+};
+
+/** Get the version-scheme input, and the version-pattern input for the pattern scheme */
+const inputVersionScheme = (inputs: Inputs): VersionScheme => {
+  const scheme = inputs.getInput('version-scheme');
+  const pattern = inputs.getInput('version-pattern');
+  if (pattern !== '' && scheme !== 'pattern') {
+    throw new Error(`The version-pattern input is only used with the pattern version scheme, got ${scheme}`);
+  }
+  switch (scheme) {
+    case 'run-attempt':
+      return runAttemptScheme;
+    case 'semver':
+      return semverScheme;
+    case 'iso-date':
+      return isoDateScheme;
+    case 'pattern':
+      if (pattern === '') {
+        throw new Error('The pattern version scheme requires a version-pattern');
+      }
+      try {
+        return patternScheme(pattern);
+      } catch (err) {
+        throw new Error(`Invalid version-pattern: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    default:
+      throw new Error(`Invalid version-scheme, expected run-attempt, semver, iso-date or pattern, got ${scheme}`);
+  }
+};
+
+/** Get the version input */
+const inputVersion = (inputs: Inputs, scheme: VersionScheme) => {
+  const input = inputs.getInput('version');
+  if (input === '') {
+    return undefined;
+  }
+  if (!scheme.extract(input)) {
+    throw new Error(`Invalid version, got ${input}`);
+  }
+  return input;
+};
+
+/** Get the pointer-source, pointer-key and pointer-field inputs */
+const inputPointer = (inputs: Inputs): PointerOptions => {
+  const source = inputs.getInput('pointer-source');
+  if (!isPointerSource(source)) {
+    throw new Error(`Invalid pointer-source, expected metadata, redirect, json or file, got ${source}`);
+  }
+  const key = inputs.getInput('pointer-key') || defaultPointerKey(source);
+  if (!isValidKeyInFolder(key)) {
+    throw new Error(`Invalid pointer-key, must be a key within the folder other than its lock and markers, got ${key}`);
+  }
+  const field = inputs.getInput('pointer-field');
+  if (source === 'json' && field === '') {
+    throw new Error('The json pointer source requires a pointer-field');
+  }
+  return { source, key, field };
+};
+
+/** Get the alias-keys input */
+const inputAliasKeys = (inputs: Inputs) => {
+  const keys = inputs.getInput('alias-keys').split(/[,\n]/).map((k) => k.trim()).filter((k) => k !== '');
+  for (const key of keys) {
+    if (!isValidKeyInFolder(key)) {
+      throw new Error(`Invalid alias key, must be a key within the folder other than its lock and markers, got ${key}`);
+    }
+  }
+  return keys;
+};
+
+/** Get the protected-versions input */
+const inputProtectedVersions = (inputs: Inputs, scheme: VersionScheme) => {
+  const versions = inputs.getInput('protected-versions').split(/[,\n]/).map((v) => v.trim()).filter((v) => v !== '');
+  for (const version of versions) {
+    if (!scheme.extract(version)) {
+      throw new Error(`Invalid protected version, got ${version}`);
+    }
+  }
+  return versions;
+};
+
+/** Get the audit-key input */
+const inputAuditKey = (inputs: Inputs) => {
+  const key = inputs.getInput('audit-key');
+  if (key !== '' && !isValidKeyInFolder(key)) {
+    throw new Error(`Invalid audit-key, must be a key within the folder other than its lock and markers, got ${key}`);
+  }
+  return key;
+};
+
+/** Get the current-version input */
+const inputCurrentVersion = (inputs: Inputs, scheme: VersionScheme) => {
+  const input = inputs.getInput('current-version');
+  if (input === '') {
+    return undefined;
+  }
+  if (!scheme.extract(input)) {
+    throw new Error(`Invalid current-version, got ${input}`);
+  }
+  return input;
+};
+
+/** Get the protected-folders input */
+const inputProtectedFolders = (inputs: Inputs) => {
+  return parseFolderPatterns(inputs.getInput('protected-folders'));
+};
+
+/** Get the tag-key and tag-value inputs */
+const inputTag = (inputs: Inputs): OldTag => {
+  const key = inputs.getInput('tag-key');
+  if (!isValidTagKey(key)) {
+    throw new Error(`Invalid tag key, got ${key}`);
+  }
+  const value = inputs.getInput('tag-value');
+  if (!isValidTagValue(value)) {
+    throw new Error(`Invalid tag value, got ${value}`);
+  }
+  return { key, value };
+};
+
+/** Get the lock, lock-ttl, lock-wait and lock-held inputs */
+const inputLock = (inputs: Inputs, context: RunContext): LockOptions => {
+  const held = inputs.getInput('lock-held');
+  if (!isLockHeld(held)) {
+    throw new Error(`Invalid lock-held, expected skip or fail, got ${held}`);
+  }
+  return {
+    enabled: inputBoolean(inputs, 'lock'),
+    owner: lockOwner(context, hostname(), process.pid),
+    ttlMs: inputInteger(inputs, 'lock-ttl', 10) * 1000,
+    waitMs: inputInteger(inputs, 'lock-wait', 0) * 1000,
+    held
+  };
+};
+
+/** Get the storage-report input */
+const inputStorageReport = (inputs: Inputs) => {
+  return inputBoolean(inputs, 'storage-report');
+};
+
+/** Get the largest-files input */
+const inputLargestFiles = (inputs: Inputs) => {
+  return inputInteger(inputs, 'largest-files', 0);
+};
+
+/** Get the redirect-old input */
+const inputRedirectOld = (inputs: Inputs) => {
+  return inputBoolean(inputs, 'redirect-old');
+};
+
+/** Get the continue-on-error input */
+const inputContinueOnError = (inputs: Inputs) => {
+  return inputBoolean(inputs, 'continue-on-error');
+};
+
+/** Get the max-failures input */
+const inputMaxFailures = (inputs: Inputs) => {
+  return inputInteger(inputs, 'max-failures', 0);
+};
+
+/** Get the noncurrent-versions input */
+const inputNoncurrentVersions = (inputs: Inputs) => {
+  const noncurrent = inputs.getInput('noncurrent-versions');
+  if (!isNoncurrentVersions(noncurrent)) {
+    throw new Error(`Invalid noncurrent-versions, expected tag, delete or keep, got ${noncurrent}`);
+  }
+  return noncurrent;
+};
+
+/** Get the lifecycle-check, install-lifecycle-rule and lifecycle-expiration-days inputs */
+const inputLifecycle = (inputs: Inputs): LifecycleOptions => {
+  const check = inputs.getInput('lifecycle-check');
+  if (!isLifecycleCheck(check)) {
+    throw new Error(`Invalid lifecycle-check, expected warn, fail or off, got ${check}`);
+  }
+  return {
+    check,
+    install: inputBoolean(inputs, 'install-lifecycle-rule'),
+    expirationDays: inputInteger(inputs, 'lifecycle-expiration-days', 1)
+  };
+};
+
+/** Get the verify input */
+const inputVerify = (inputs: Inputs) => {
+  return inputBoolean(inputs, 'verify');
+};
+
+/** Get the dry-run input */
+const inputDryRun = (inputs: Inputs) => {
+  return inputBoolean(inputs, 'dry-run');
+};
+
+/** Checks if a bucket is versioned, assuming that it is not if its versioning cannot be read. */
+const bucketVersioned = async (log: Logger, client: S3Client, bucket: string) => {
+  try {
+    const data = await client.send(new GetBucketVersioningCommand({
+      Bucket: bucket
+    }));
+    return isVersioned(data.Status);
+  } catch (err) {
+    if (err instanceof S3ServiceException && UNREADABLE_VERSIONING_ERRORS.includes(err.name)) {
+      log.warning(`Cannot read the versioning of ${bucket}, assuming it is not versioned: ${err.name}`);
+      return false;
+    }
+    throw err;
+  }
+};
+
+/** Get the rules and settings of a bucket's lifecycle configuration, or undefined if they cannot be read. */
+const lifecycleConfiguration = async (log: Logger, client: S3Client, bucket: string): Promise<LifecycleConfiguration | undefined> => {
+  try {
+    const data = await client.send(new GetBucketLifecycleConfigurationCommand({
+      Bucket: bucket
+    }));
+    return { rules: data.Rules ?? [], transitionDefaultMinimumObjectSize: data.TransitionDefaultMinimumObjectSize };
+  } catch (err) {
+    if (err instanceof S3ServiceException && err.name === 'NoSuchLifecycleConfiguration') {
+      return { rules: [] };
+    }
+    if (err instanceof S3ServiceException && UNREADABLE_LIFECYCLE_ERRORS.includes(err.name)) {
+      log.warning(`Cannot read the lifecycle configuration of ${bucket}: ${err.name}`);
+      return undefined;
+    }
+    throw err;
+  }
+};
+
+/**
+ * Check that the bucket has an enabled lifecycle rule that expires the objects
+ * tagged as old, since without one nothing the action tags is ever deleted. When
+ * asked to, install or update the action's own rule instead, keeping every other
+ * rule as it is since S3 replaces the whole configuration.
+ */
+const lifecycleChecked = async (
+  log: Logger,
+  client: S3Client,
+  bucket: string,
+  lifecycle: LifecycleOptions,
+  tag: OldTag,
+  folders: string[],
+  versioned: boolean,
+  dryRun: boolean,
+) => {
+  if (lifecycle.check === 'off' && !lifecycle.install) {
+    return;
+  }
+  const configuration = await lifecycleConfiguration(log, client, bucket);
+  if (configuration === undefined) {
+    if (lifecycle.install) {
+      throw new Error(`Cannot install the lifecycle rule of ${bucket} without reading its other rules`);
+    }
+    return;
+  }
+  const { rules } = configuration;
+  if (lifecycle.install) {
+    const ownRule = oldTagRule(tag, lifecycle.expirationDays, versioned);
+    const installed = rules.find((r) => r.ID === ownRule.ID);
+    const description = `lifecycle rule ${ownRule.ID} expiring objects tagged ${tag.key}=${tag.value} after ${lifecycle.expirationDays} days`;
+    if (isRuleUpToDate(installed, ownRule)) {
+      log.info(`The ${description} is up to date`);
+    } else if (dryRun) {
+      log.info(`Would ${installed ? 'update' : 'install'} the ${description}`);
+    } else {
+      await client.send(new PutBucketLifecycleConfigurationCommand({
+        Bucket: bucket,
+        LifecycleConfiguration: { Rules: withRule(rules, ownRule) },
+        // a setting of the whole configuration, which is reset to its default unless it is sent back
+        TransitionDefaultMinimumObjectSize: configuration.transitionDefaultMinimumObjectSize
+      }));
+      log.info(`${installed ? 'Updated' : 'Installed'} the ${description}`);
+    }
+    return;
+  }
+  const rule = rules.find((r) => expiresOldTag(r, tag, folders));
+  if (!rule) {
+    const message = `No enabled lifecycle rule of ${bucket} expires all objects tagged ${tag.key}=${tag.value} in these folders, so they are never deleted`;
+    if (lifecycle.check === 'fail') {
+      throw new Error(message);
+    }
+    log.warning(message);
+    return;
+  }
+  log.info(`Lifecycle rule ${rule.ID ?? ''} of ${bucket} expires objects tagged ${tag.key}=${tag.value}`);
+  if (versioned && !expiresNoncurrent(rule)) {
+    // expiring a tagged object in a versioned bucket only adds a delete marker in front of it
+    log.warning(`Lifecycle rule ${rule.ID ?? ''} of ${bucket} does not expire noncurrent versions, so the tagged objects it expires are never deleted`);
+  }
+};
+
+/** Limit every request the clients send, including retries, to a rate shared by all folders and versions. */
+const rateLimited = (clients: S3Client[], perSecond: number) => {
+  const rate = rateLimiter(perSecond);
+  for (const client of clients) {
+    client.middlewareStack.add((next) => async (args) => {
+      await rate();
+      return next(args);
+    }, { step: 'finalizeRequest', priority: 'low', name: 'rateLimit' });
+  }
+};
+
+/** Run the program */
+const main = async (frontend: Frontend) => {
+  const bucket = inputBucket(frontend);
+  const mode = inputMode(frontend);
+  const scheme = inputVersionScheme(frontend);
+  const version = inputVersion(frontend, scheme);
+  const pointer = inputPointer(frontend);
+  const currentVersion = inputCurrentVersion(frontend, scheme);
+  const aliasKeys = inputAliasKeys(frontend);
+  const protectedVersions = inputProtectedVersions(frontend, scheme);
+  const auditKey = inputAuditKey(frontend);
+  const context = runContext(process.env);
+  const lock = inputLock(frontend, context);
+  const storageReport = inputStorageReport(frontend);
+  const largestFiles = inputLargestFiles(frontend);
+  const parallel = inputParallel(frontend);
+  const retries = inputRetries(frontend);
+  const partSize = inputPartSize(frontend);
+  const dryRun = inputDryRun(frontend);
+  const continueOnError = inputContinueOnError(frontend);
+  const maxFailures = inputMaxFailures(frontend);
+  const verify = inputVerify(frontend);
+  const redirectOld = inputRedirectOld(frontend);
+  const noncurrent = inputNoncurrentVersions(frontend);
+  const lifecycle = inputLifecycle(frontend);
+  const tag = inputTag(frontend);
+  const retention = inputRetention(frontend);
+  const maxRequestsPerSecond = inputMaxRequestsPerSecond(frontend);
+  const client = new S3Client({ forcePathStyle: true });
+  // retrying in the SDK as well would multiply the attempts and hide throttling from the limit
+  const keyClient = new S3Client({ forcePathStyle: true, maxAttempts: 1 });
+  if (maxRequestsPerSecond > 0) {
+    rateLimited([ client, keyClient ], maxRequestsPerSecond);
+  }
+  const folders = await inputFolders(frontend, client, bucket);
+  const versioned = await bucketVersioned(frontend, client, bucket);
+  if (versioned) {
+    frontend.info(`${bucket} is versioned, the versions left behind by copies will be ${describeNoncurrent(noncurrent)}`);
+  }
+  // restoring only removes tags, and should not be held up by the rule
+  if (mode !== 'restore') {
+    await lifecycleChecked(frontend, client, bucket, lifecycle, tag, folders, versioned, dryRun);
+  }
+  if (mode === 'retire-folder') {
+    const protectedFolders = matchFolders(folders, inputProtectedFolders(frontend));
+    if (protectedFolders.length > 0) {
+      throw new Error(`Refusing to retire protected folders: ${protectedFolders.join(', ')}`);
+    }
+  }
+  if (dryRun) {
+    frontend.info('Dry run, no objects will be tagged');
+  }
+  const options: CleanupOptions = {
+    mode, scheme, version, pointer, currentVersion, aliasKeys, protectedVersions, storageReport, largestFiles, auditKey, run: context, lock,
+    parallel, retries, partSize, dryRun, continueOnError, retention, tag, redirectOld, verify, versioned, noncurrent,
+    keyClient, limit: limiter(parallel), versionLimit: limiter(parallel), log: frontend
+  };
+  const { reports, failures, locked } = await cleanupFolders(client, bucket, folders, options);
+  await publishReports(frontend, reports, failures, locked, options);
+  if (failures.length > 0) {
+    throw new Error(`Failed to clean up ${failures.length} of ${folders.length} folders: ${failures.map((f) => f.folder).join(', ')}`);
+  }
+  const failedKeys = keyFailures(reports);
+  if (failedKeys.length > maxFailures) {
+    throw new Error(`${failedKeys.length} keys failed, more than the ${maxFailures} allowed by max-failures`);
+  } else if (failedKeys.length > 0) {
+    frontend.warning(`${failedKeys.length} keys failed, within the ${maxFailures} allowed by max-failures`);
+  }
 };
 
 /**
- * Run the action and report errors.
+ * Run the cleanup and report errors, as an action unless another frontend is given.
  */
-export const run = async () => {
-  core.debug('Starting tinymce-docs-cleanup-action');
+export const run = async (frontend: Frontend = actionFrontend) => {
+  frontend.debug('Starting tinymce-docs-cleanup-action');
   try {
-    await main();
+    await main(frontend);
   } catch (err) {
     if (typeof err === 'string' || err instanceof Error) {
-      core.setFailed(err);
+      frontend.setFailed(err);
     } else {
       // eslint-disable-next-line @typescript-eslint/no-base-to-string
-      core.setFailed(err !== undefined ? String(err) : 'unknown error');
+      frontend.setFailed(err !== undefined ? String(err) : 'unknown error');
     }
   }
 };
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { expect, test, describe } from '@jest/globals';
+import { copyParts, MAX_COPY_OBJECT_SIZE, MAX_PARTS, MIN_PART_SIZE, needsMultipartCopy } from './multipart';
+
+const MIB = 1024 * 1024;
+const GIB = 1024 * MIB;
+
+describe('needsMultipartCopy', () => {
+  test('copies objects up to 5 GiB with CopyObject', () => {
+    expect(needsMultipartCopy(0)).toBe(false);
+    expect(needsMultipartCopy(MAX_COPY_OBJECT_SIZE)).toBe(false);
+    expect(needsMultipartCopy(MAX_COPY_OBJECT_SIZE + 1)).toBe(true);
+  });
+});
+
+describe('copyParts', () => {
+  test('splits an object into inclusive byte ranges', () => {
+    expect(copyParts(12 * MIB, 5 * MIB)).toEqual([
+      { partNumber: 1, range: `bytes=0-${5 * MIB - 1}` },
+      { partNumber: 2, range: `bytes=${5 * MIB}-${10 * MIB - 1}` },
+      { partNumber: 3, range: `bytes=${10 * MIB}-${12 * MIB - 1}` }
+    ]);
+  });
+
+  test('does not add an empty part when the size is a multiple of the part size', () => {
+    const parts = copyParts(10 * MIB, 5 * MIB);
+    expect(parts).toHaveLength(2);
+    expect(parts[1].range).toBe(`bytes=${5 * MIB}-${10 * MIB - 1}`);
+  });
+
+  test('covers a large object', () => {
+    const parts = copyParts(6 * GIB, 512 * MIB);
+    expect(parts).toHaveLength(12);
+    expect(parts[11].range).toBe(`bytes=${11 * 512 * MIB}-${6 * GIB - 1}`);
+  });
+
+  test('raises the part size to stay within the part limit', () => {
+    const parts = copyParts(100 * GIB, MIN_PART_SIZE);
+    expect(parts.length).toBeLessThanOrEqual(MAX_PARTS);
+    expect(parts.at(-1)?.range).toMatch(new RegExp(`-${100 * GIB - 1}$`));
+  });
+
+  test('rejects part sizes S3 does not allow', () => {
+    expect(() => copyParts(6 * GIB, MIB)).toThrow('Part size');
+    expect(() => copyParts(6 * GIB, 6 * GIB)).toThrow('Part size');
+  });
+});
@@ -0,0 +1,41 @@
+const MIB = 1024 * 1024;
+
+/** The largest object a single CopyObject request can copy. */
+export const MAX_COPY_OBJECT_SIZE = 5 * 1024 * MIB;
+
+/** The smallest part allowed in a multipart upload, other than the last. */
+export const MIN_PART_SIZE = 5 * MIB;
+
+/** The largest part allowed in a multipart upload. */
+export const MAX_PART_SIZE = 5 * 1024 * MIB;
+
+/** The most parts allowed in a multipart upload. */
+export const MAX_PARTS = 10000;
+
+export interface CopyPart {
+  partNumber: number;
+  /** The CopySourceRange of the part, the byte range is inclusive. */
+  range: string;
+}
+
+/** Check if an object is too large to copy with CopyObject. */
+export const needsMultipartCopy = (size: number) => {
+  return size > MAX_COPY_OBJECT_SIZE;
+};
+
+/**
+ * Split an object into the parts of a multipart copy. The part size is raised
+ * when it would otherwise take more parts than S3 allows.
+ */
+export const copyParts = (size: number, partSize: number): CopyPart[] => {
+  if (partSize < MIN_PART_SIZE || partSize > MAX_PART_SIZE) {
+    throw new Error(`Part size must be between ${MIN_PART_SIZE} and ${MAX_PART_SIZE} bytes, got ${partSize}`);
+  }
+  const effectivePartSize = Math.max(partSize, Math.ceil(size / MAX_PARTS));
+  const parts: CopyPart[] = [];
+  for (let start = 0; start < size; start += effectivePartSize) {
+    const end = Math.min(start + effectivePartSize, size) - 1;
+    parts.push({ partNumber: parts.length + 1, range: `bytes=${start}-${end}` });
+  }
+  return parts;
+};
@@ -0,0 +1,161 @@
+import { expect, test, describe } from '@jest/globals';
+import { limiter, parallelGenerator, parallelMap, rateLimiter } from './parallel';
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('parallelGenerator', () => {
+  test('yields every result', async () => {
+    const source = function* () {
+      for (let i = 0; i < 5; i++) {
+        yield delay(5 - i).then(() => i);
+      }
+    };
+    const results: number[] = [];
+    for await (const v of parallelGenerator(2, source())) {
+      results.push(v);
+    }
+    expect(results.sort()).toEqual([ 0, 1, 2, 3, 4 ]);
+  });
+});
+
+describe('parallelMap', () => {
+  const source = async function* (count: number) {
+    for (let i = 0; i < count; i++) {
+      // simulate fetching a page every 3 items
+      if (i % 3 === 0) {
+        await delay(2);
+      }
+      yield i;
+    }
+  };
+
+  test('rejects a max below 1', async () => {
+    await expect(parallelMap(0, source(1), async (i) => i).next()).rejects.toThrow('max must be at least 1');
+  });
+
+  test('maps every item', async () => {
+    const results: number[] = [];
+    for await (const v of parallelMap(2, source(7), async (i) => i * 2)) {
+      results.push(v);
+    }
+    expect(results.sort((a, b) => a - b)).toEqual([ 0, 2, 4, 6, 8, 10, 12 ]);
+  });
+
+  test('keeps at most max calls in progress across pages', async () => {
+    let active = 0;
+    let peak = 0;
+    const fn = async (i: number) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+      return i;
+    };
+    const results: number[] = [];
+    for await (const v of parallelMap(4, source(10), fn)) {
+      results.push(v);
+    }
+    expect(results).toHaveLength(10);
+    expect(peak).toBe(4);
+  });
+
+  test('rejects when a call fails', async () => {
+    const fn = async (i: number) => {
+      if (i === 3) {
+        throw new Error('failed');
+      }
+      return i;
+    };
+    const results: number[] = [];
+    const consume = async () => {
+      for await (const v of parallelMap(2, source(6), fn)) {
+        results.push(v);
+      }
+    };
+    await expect(consume()).rejects.toThrow('failed');
+    expect(results).not.toContain(3);
+  });
+});
+
+describe('limiter', () => {
+  test('rejects a max below 1', () => {
+    expect(() => limiter(0)).toThrow('max must be at least 1');
+  });
+
+  test('runs at most max tasks at once', async () => {
+    const limit = limiter(2);
+    let active = 0;
+    let peak = 0;
+    const task = async (i: number) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+      return i;
+    };
+    const results = await Promise.all([ 0, 1, 2, 3, 4 ].map((i) => limit(() => task(i))));
+    expect(results).toEqual([ 0, 1, 2, 3, 4 ]);
+    expect(peak).toBe(2);
+  });
+
+  test('frees the slot when a task fails', async () => {
+    const limit = limiter(1);
+    await expect(limit(() => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+    await expect(limit(() => Promise.resolve(1))).resolves.toBe(1);
+  });
+
+  test('halves the limit when throttled and recovers on success', async () => {
+    const limit = limiter(4);
+    limit.throttled();
+    expect(limit.current()).toBe(2);
+    limit.throttled();
+    limit.throttled();
+    expect(limit.current()).toBe(1);
+    limit.succeeded();
+    expect(limit.current()).toBe(2);
+    limit.succeeded();
+    limit.succeeded();
+    expect(limit.current()).toBe(3);
+    for (let i = 0; i < 10; i++) {
+      limit.succeeded();
+    }
+    expect(limit.current()).toBe(4);
+  });
+
+  test('runs fewer tasks at once while throttled', async () => {
+    const limit = limiter(4);
+    limit.throttled();
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    };
+    await Promise.all([ 0, 1, 2, 3, 4, 5 ].map(() => limit(task)));
+    expect(peak).toBe(2);
+  });
+});
+
+describe('rateLimiter', () => {
+  test('rejects a rate of 0', () => {
+    expect(() => rateLimiter(0)).toThrow('perSecond must be more than 0');
+  });
+
+  test('spaces out starts', async () => {
+    let time = 1000;
+    const sleeps: number[] = [];
+    const rate = rateLimiter(4, () => time, async (ms) => {
+      sleeps.push(ms);
+    });
+    await rate();
+    await rate();
+    await rate();
+    expect(sleeps).toEqual([ 250, 500 ]);
+    // after a quiet spell the next start is immediate
+    time = 5000;
+    await rate();
+    expect(sleeps).toEqual([ 250, 500 ]);
+  });
+});
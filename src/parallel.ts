@@ -42,4 +42,111 @@ export async function* parallelGenerator<T>(max: number, source: Generator<Promi
     }
     filteredTasks = tasksAndNull.filter((t) => t !== null);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Runs `fn` over the items of an async source with up to `max` calls in
+ * progress at once, yielding results as they complete. The source is read
+ * ahead as slots free up, so a source that fetches in pages can fetch the next
+ * page while the current items are still being processed.
+ */
+export async function* parallelMap<S, T>(max: number, source: AsyncIterable<S>, fn: (item: S) => Promise<T>): AsyncGenerator<T, void, unknown> {
+  if (max < 1) {
+    throw new Error('max must be at least 1');
+  }
+  const iterator = source[Symbol.asyncIterator]();
+  const running = new Map<number, Promise<[number, T]>>();
+  let nextId = 0;
+  let sourceDone = false;
+  const fill = async () => {
+    while (!sourceDone && running.size < max) {
+      const item = await iterator.next();
+      if (item.done) {
+        sourceDone = true;
+      } else {
+        const id = nextId++;
+        const task = fn(item.value).then((v): [number, T] => [ id, v ]);
+        // failures are raised by the race below, this stops them being reported
+        // as unhandled while the source is being read
+        task.catch(() => undefined);
+        running.set(id, task);
+      }
+    }
+  };
+  await fill();
+  while (running.size > 0) {
+    const [ id, v ] = await Promise.race(running.values());
+    running.delete(id);
+    yield v;
+    await fill();
+  }
+}
+
+/**
+ * Returns a function that runs the tasks given to it with at most `max` of
+ * them in progress at once, the rest wait in order for a free slot. Sharing
+ * one limiter between callers gives them a shared concurrency budget.
+ *
+ * The limit adapts to throttling: `throttled` halves it and `succeeded` raises
+ * it by one after a limit's worth of successes, until it is back at `max`.
+ */
+export const limiter = (max: number) => {
+  if (max < 1) {
+    throw new Error('max must be at least 1');
+  }
+  let limit = max;
+  let active = 0;
+  let successes = 0;
+  const waiting: (() => void)[] = [];
+  const wake = () => {
+    while (active < limit && waiting.length > 0) {
+      active++;
+      waiting.shift()?.();
+    }
+  };
+  const run = async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      active--;
+      wake();
+    }
+  };
+  const throttled = () => {
+    limit = Math.max(1, Math.floor(limit / 2));
+    successes = 0;
+  };
+  const succeeded = () => {
+    if (limit < max && ++successes >= limit) {
+      limit++;
+      successes = 0;
+      wake();
+    }
+  };
+  return Object.assign(run, { throttled, succeeded, current: () => limit });
+};
+
+/**
+ * Returns a function that resolves when the caller may start, spacing the
+ * starts out so that no more than `perSecond` start in any second.
+ */
+export const rateLimiter = (perSecond: number, now = () => Date.now(), sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))) => {
+  if (perSecond <= 0) {
+    throw new Error('perSecond must be more than 0');
+  }
+  const interval = 1000 / perSecond;
+  let next = 0;
+  return async () => {
+    const time = now();
+    const start = Math.max(time, next);
+    next = start + interval;
+    if (start > time) {
+      await sleep(start - time);
+    }
+  };
+};
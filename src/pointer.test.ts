@@ -0,0 +1,62 @@
+import { expect, test, describe } from '@jest/globals';
+import { defaultPointerKey, describePointer, isPointerSource, manifestVersion, redirectVersion } from './pointer';
+
+describe('isPointerSource', () => {
+  test('accepts the known sources', () => {
+    for (const source of [ 'metadata', 'redirect', 'json', 'file' ]) {
+      expect(isPointerSource(source)).toBe(true);
+    }
+    expect(isPointerSource('')).toBe(false);
+    expect(isPointerSource('header')).toBe(false);
+  });
+});
+
+describe('defaultPointerKey', () => {
+  test('reads index.html unless the source is a separate file', () => {
+    expect(defaultPointerKey('metadata')).toBe('index.html');
+    expect(defaultPointerKey('redirect')).toBe('index.html');
+    expect(defaultPointerKey('json')).toBe('current.json');
+    expect(defaultPointerKey('file')).toBe('current');
+  });
+});
+
+describe('describePointer', () => {
+  test('names the key and field', () => {
+    expect(describePointer('pr-123', { source: 'json', key: 'current.json', field: 'version' })).toBe('the version field of pr-123/current.json');
+    expect(describePointer('pr-123', { source: 'metadata', key: 'index.html', field: 'version' })).toBe('the pointer metadata of pr-123/index.html');
+  });
+});
+
+describe('redirectVersion', () => {
+  test('gets the version from a path', () => {
+    expect(redirectVersion('pr-123', '/pr-123/run-13-2/index.html')).toBe('run-13-2');
+    expect(redirectVersion('pr-123', '/pr-123/run-13-2/')).toBe('run-13-2');
+    expect(redirectVersion('pr-123', 'pr-123/run-13-2')).toBe('run-13-2');
+  });
+
+  test('gets the version from a URL', () => {
+    expect(redirectVersion('pr-123', 'https://docs.example.com/pr-123/run-13-2/index.html')).toBe('run-13-2');
+  });
+
+  test('returns undefined outside the folder', () => {
+    expect(redirectVersion('pr-123', '/pr-1234/run-13-2/')).toBeUndefined();
+    expect(redirectVersion('pr-123', '/main/run-13-2/')).toBeUndefined();
+    expect(redirectVersion('pr-123', '/pr-123/')).toBeUndefined();
+    expect(redirectVersion('pr-123', 'https://pr-123/run-13-2/')).toBeUndefined();
+  });
+});
+
+describe('manifestVersion', () => {
+  test('gets a top level or nested field', () => {
+    expect(manifestVersion('{"version":"run-13-2"}', 'version')).toBe('run-13-2');
+    expect(manifestVersion('{"live":{"version":"run-13-2"}}', 'live.version')).toBe('run-13-2');
+  });
+
+  test('returns undefined for missing fields, other types and invalid JSON', () => {
+    expect(manifestVersion('{"current":"run-13-2"}', 'version')).toBeUndefined();
+    expect(manifestVersion('{"version":13}', 'version')).toBeUndefined();
+    expect(manifestVersion('{"live":"run-13-2"}', 'live.version')).toBeUndefined();
+    expect(manifestVersion('null', 'version')).toBeUndefined();
+    expect(manifestVersion('run-13-2', 'version')).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+export type PointerSource = 'metadata' | 'redirect' | 'json' | 'file';
+
+export interface PointerOptions {
+  source: PointerSource;
+  /** The key of the pointer within the folder. */
+  key: string;
+  /** The field of a JSON manifest that holds the version. */
+  field: string;
+}
+
+export const isPointerSource = (s: string): s is PointerSource =>
+  s === 'metadata' || s === 'redirect' || s === 'json' || s === 'file';
+
+/** The key within the folder that each source reads when no key is given. */
+export const defaultPointerKey = (source: PointerSource) => {
+  switch (source) {
+    case 'metadata':
+    case 'redirect':
+      return 'index.html';
+    case 'json':
+      return 'current.json';
+    case 'file':
+      return 'current';
+  }
+};
+
+/** Describe where the pointer is read from, for logging. */
+export const describePointer = (folder: string, pointer: PointerOptions) => {
+  const key = `${folder}/${pointer.key}`;
+  switch (pointer.source) {
+    case 'metadata':
+      return `the pointer metadata of ${key}`;
+    case 'redirect':
+      return `the redirect location of ${key}`;
+    case 'json':
+      return `the ${pointer.field} field of ${key}`;
+    case 'file':
+      return `the contents of ${key}`;
+  }
+};
+
+/**
+ * Get the version from a redirect location such as /pr-123/run-13-2/index.html,
+ * which may also be a full URL, or undefined if it does not point into the folder.
+ */
+export const redirectVersion = (folder: string, location: string) => {
+  const path = location.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '').replace(/^\/+/, '');
+  if (path.startsWith(`${folder}/`)) {
+    const version = path.slice(folder.length + 1).split('/')[0];
+    return version === '' ? undefined : version;
+  }
+};
+
+/** Get the version from a field of a JSON manifest, where nested fields are separated by dots. */
+export const manifestVersion = (body: string, field: string) => {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  for (const name of field.split('.')) {
+    if (typeof value !== 'object' || value === null || !Object.hasOwn(value, name)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[name];
+  }
+  return typeof value === 'string' ? value : undefined;
+};
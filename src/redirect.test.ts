@@ -0,0 +1,50 @@
+import { expect, test, describe } from '@jest/globals';
+import { currentKey, folderRoot, isHtml, withOldRedirect, withoutOldRedirect } from './redirect';
+
+const redirect = { folder: 'pr-123', version: 'run-12-3', currentVersion: 'run-13-2' };
+
+describe('isHtml', () => {
+  test('checks the content type and the extension', () => {
+    expect(isHtml('pr-123/run-12-3/page', 'text/html; charset=utf-8')).toBe(true);
+    expect(isHtml('pr-123/run-12-3/index.html', undefined)).toBe(true);
+    expect(isHtml('pr-123/run-12-3/index.HTM', 'binary/octet-stream')).toBe(true);
+    expect(isHtml('pr-123/run-12-3/site.css', 'text/css')).toBe(false);
+    expect(isHtml('pr-123/run-12-3/html', 'application/json')).toBe(false);
+  });
+});
+
+describe('currentKey', () => {
+  test('is the same path under the current version', () => {
+    expect(currentKey(redirect, 'pr-123/run-12-3/guide/index.html')).toBe('pr-123/run-13-2/guide/index.html');
+    expect(currentKey(redirect, 'pr-123/run-12-30/index.html')).toBeUndefined();
+  });
+
+  test('falls back to the folder root', () => {
+    expect(folderRoot(redirect)).toBe('/pr-123/');
+  });
+});
+
+describe('withOldRedirect and withoutOldRedirect', () => {
+  test('restore an object without a redirect', () => {
+    const properties = { ContentType: 'text/html', Metadata: { 'old-at': 'now' }};
+    const redirected = withOldRedirect(properties, '/pr-123/run-13-2/index.html');
+    expect(redirected).toEqual({
+      ContentType: 'text/html',
+      WebsiteRedirectLocation: '/pr-123/run-13-2/index.html',
+      Metadata: { 'old-at': 'now', 'old-redirect-from': '' }
+    });
+    expect(withoutOldRedirect(redirected)).toEqual({ ContentType: 'text/html', WebsiteRedirectLocation: undefined, Metadata: { 'old-at': 'now' }});
+  });
+
+  test('restore the redirect an object already had', () => {
+    const properties = { WebsiteRedirectLocation: '/elsewhere/', Metadata: {}};
+    const redirected = withOldRedirect(properties, '/pr-123/');
+    expect(redirected.Metadata).toEqual({ 'old-redirect-from': '/elsewhere/' });
+    expect(withoutOldRedirect(redirected)).toEqual(properties);
+  });
+
+  test('leave objects that were not redirected alone', () => {
+    const properties = { WebsiteRedirectLocation: '/elsewhere/', Metadata: { custom: 'value' }};
+    expect(withoutOldRedirect(properties)).toBe(properties);
+  });
+});
@@ -0,0 +1,40 @@
+import { CopyProperties } from './copy';
+
+/** The metadata key holding the redirect an object had before it was redirected as old, empty if none. */
+export const REDIRECT_FROM_KEY = 'old-redirect-from';
+
+/** Where the objects of an old version are redirected to. */
+export interface OldRedirect {
+  folder: string;
+  version: string;
+  currentVersion: string;
+}
+
+/** Checks if an object is an HTML page, which readers may have bookmarked. */
+export const isHtml = (key: string, contentType: string | undefined) =>
+  contentType?.split(';')[0].trim().toLowerCase() === 'text/html' || /\.html?$/i.test(key);
+
+/** The key of the same page under the current version, or undefined if the key is not in the old version. */
+export const currentKey = (redirect: OldRedirect, key: string) => {
+  const prefix = `${redirect.folder}/${redirect.version}/`;
+  return key.startsWith(prefix) ? `${redirect.folder}/${redirect.currentVersion}/${key.slice(prefix.length)}` : undefined;
+};
+
+/** The root of the folder, where the pointer sends readers to the current version. */
+export const folderRoot = (redirect: OldRedirect) => `/${redirect.folder}/`;
+
+/** Redirect an object, remembering any redirect it already had so that it can be restored. */
+export const withOldRedirect = (properties: CopyProperties, location: string): CopyProperties => ({
+  ...properties,
+  WebsiteRedirectLocation: location,
+  Metadata: { ...properties.Metadata, [REDIRECT_FROM_KEY]: properties.WebsiteRedirectLocation ?? '' }
+});
+
+/** Put back the redirect an object had before it was redirected as old, if it was. */
+export const withoutOldRedirect = (properties: CopyProperties): CopyProperties => {
+  const { [REDIRECT_FROM_KEY]: from, ...metadata } = properties.Metadata ?? {};
+  if (from === undefined) {
+    return properties;
+  }
+  return { ...properties, WebsiteRedirectLocation: from === '' ? undefined : from, Metadata: metadata };
+};
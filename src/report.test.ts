@@ -0,0 +1,133 @@
+import { expect, test, describe } from '@jest/globals';
+import { CleanupReport, describeKeyFailure, reportOutputs, reportTable } from './report';
+
+const report: CleanupReport = {
+  folder: 'pr-123',
+  currentVersion: 'run-13-2',
+  dryRun: false,
+  versions: [
+    { version: 'run-12-3', prefix: 'pr-123/run-12-3/', status: 'old' },
+    { version: 'run-13-1', prefix: 'pr-123/run-13-1/', status: 'tagged', objects: 5, bytes: 19 },
+    { version: 'run-13-2', prefix: 'pr-123/run-13-2/', status: 'current' },
+    { version: 'run-14-1', prefix: 'pr-123/run-14-1/', status: 'newer' }
+  ]
+};
+
+describe('reportOutputs', () => {
+  test('splits tagged and skipped prefixes', () => {
+    expect(reportOutputs([ report ], [], [])).toEqual({
+      'current-version': 'run-13-2',
+      'current-versions': { 'pr-123': 'run-13-2' },
+      'failed-folders': [],
+      'locked-folders': [],
+      'failed-keys': [],
+      'tagged': [ 'pr-123/run-13-1/' ],
+      'skipped': [ 'pr-123/run-12-3/', 'pr-123/run-13-2/', 'pr-123/run-14-1/' ],
+      'restored': [],
+      'unrecognised': [],
+      'tagged-objects': 5,
+      'tagged-bytes': 19
+    });
+  });
+
+  test('counts nothing when nothing was tagged', () => {
+    const outputs = reportOutputs([{ ...report, versions: [ report.versions[2] ] }], [], []);
+    expect(outputs.tagged).toEqual([]);
+    expect(outputs['tagged-objects']).toBe(0);
+    expect(outputs['tagged-bytes']).toBe(0);
+  });
+
+  test('lists restored prefixes separately', () => {
+    const outputs = reportOutputs([{
+      ...report,
+      versions: [
+        { version: 'run-13-2', prefix: 'pr-123/run-13-2/', status: 'restored', objects: 5, bytes: 19 },
+        { version: 'run-14-1', prefix: 'pr-123/run-14-1/', status: 'newer' }
+      ]
+    }], [], []);
+    expect(outputs.restored).toEqual([ 'pr-123/run-13-2/' ]);
+    expect(outputs.skipped).toEqual([ 'pr-123/run-14-1/' ]);
+    expect(outputs['tagged-objects']).toBe(0);
+  });
+
+  test('lists unrecognised prefixes separately', () => {
+    const outputs = reportOutputs([{
+      ...report,
+      versions: [
+        { version: 'latest', prefix: 'pr-123/latest/', status: 'unrecognised' },
+        { version: 'run-13-2', prefix: 'pr-123/run-13-2/', status: 'current' }
+      ]
+    }], [], []);
+    expect(outputs.unrecognised).toEqual([ 'pr-123/latest/' ]);
+    expect(outputs.skipped).toEqual([ 'pr-123/run-13-2/' ]);
+  });
+
+  test('lists folders skipped because they were locked', () => {
+    const outputs = reportOutputs([ report ], [], [{ folder: 'pr-124', owner: 'tinymce/tinymce-docs run 1234 attempt 1' }]);
+    expect(outputs['locked-folders']).toEqual([ 'pr-124' ]);
+    expect(outputs['current-versions']).toEqual({ 'pr-123': 'run-13-2' });
+  });
+
+  test('lists the keys that failed', () => {
+    const failure = { key: 'pr-123/run-13-1/secret.txt', name: 'AccessDenied', message: 'Access Denied' };
+    const outputs = reportOutputs([{
+      ...report,
+      versions: [{ version: 'run-13-1', prefix: 'pr-123/run-13-1/', status: 'tagged', objects: 4, bytes: 15, failures: [ failure ] }]
+    }], [], []);
+    expect(outputs['failed-keys']).toEqual([ failure ]);
+    expect(describeKeyFailure(failure)).toBe('pr-123/run-13-1/secret.txt: AccessDenied: Access Denied');
+  });
+
+  test('combines several folders', () => {
+    const other: CleanupReport = {
+      folder: 'pr-124',
+      currentVersion: 'run-20-1',
+      dryRun: false,
+      versions: [
+        { version: 'run-19-1', prefix: 'pr-124/run-19-1/', status: 'tagged', objects: 2, bytes: 100 },
+        { version: 'run-20-1', prefix: 'pr-124/run-20-1/', status: 'current' }
+      ]
+    };
+    const outputs = reportOutputs([ report, other ], [{ folder: 'pr-125', message: 'No current version pointer found for pr-125' }], []);
+    expect(outputs['current-version']).toBe('');
+    expect(outputs['current-versions']).toEqual({ 'pr-123': 'run-13-2', 'pr-124': 'run-20-1' });
+    expect(outputs['failed-folders']).toEqual([ 'pr-125' ]);
+    expect(outputs.tagged).toEqual([ 'pr-123/run-13-1/', 'pr-124/run-19-1/' ]);
+    expect(outputs['locked-folders']).toEqual([]);
+    expect(outputs['tagged-objects']).toBe(7);
+    expect(outputs['tagged-bytes']).toBe(119);
+  });
+});
+
+describe('reportTable', () => {
+  test('has one row per version after the header', () => {
+    expect(reportTable(report)).toEqual([
+      [ 'Version', 'Status', 'Objects', 'Bytes', 'Size', 'Reason' ],
+      [ 'run-12-3', 'Already old', '', '', '', '' ],
+      [ 'run-13-1', 'Newly tagged', '5', '19', '', '' ],
+      [ 'run-13-2', 'Current', '', '', '', '' ],
+      [ 'run-14-1', 'Newer', '', '', '', '' ]
+    ]);
+  });
+
+  test('says why a version was kept', () => {
+    const table = reportTable({
+      ...report,
+      versions: [{ version: 'run-12-4', prefix: 'pr-123/run-12-4/', status: 'kept', reason: 'referenced by pr-123/latest/index.html' }]
+    });
+    expect(table[1]).toEqual([ 'run-12-4', 'Kept', '', '', '', 'referenced by pr-123/latest/index.html' ]);
+  });
+
+  test('shows the size of listed versions', () => {
+    const size = { objects: 6, bytes: 3 * 1024 * 1024, largest: [] };
+    const table = reportTable({
+      ...report,
+      versions: [{ version: 'run-13-1', prefix: 'pr-123/run-13-1/', status: 'tagged', objects: 5, bytes: 19, size }]
+    });
+    expect(table[1][4]).toBe('3.0 MiB');
+  });
+
+  test('labels tagged versions differently in a dry run', () => {
+    expect(reportTable({ ...report, dryRun: true })[2][1]).toBe('Would tag');
+  });
+});
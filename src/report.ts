@@ -0,0 +1,103 @@
+import { formatBytes, PrefixSize } from './storage';
+
+export type VersionStatus = 'current' | 'newer' | 'kept' | 'old' | 'tagged' | 'restored' | 'unrecognised';
+
+/** A key that failed while the rest of its version was changed, with continue-on-error. */
+export interface KeyFailure {
+  key: string;
+  name: string;
+  message: string;
+}
+
+export interface VersionReport {
+  version: string;
+  prefix: string;
+  status: VersionStatus;
+  objects?: number;
+  bytes?: number;
+  /** Why a version was kept or restored rather than tagged. */
+  reason?: string;
+  /** The size of everything in the version, when it was listed. */
+  size?: PrefixSize;
+  /** The keys that failed, which are tried again by the next run. */
+  failures?: KeyFailure[];
+}
+
+export interface CleanupReport {
+  folder: string;
+  currentVersion: string;
+  dryRun: boolean;
+  versions: VersionReport[];
+  /** Why the whole folder was left alone, which also leaves its audit ledger alone. */
+  skipped?: string;
+}
+
+/** A folder skipped because another run held its lock. */
+export interface LockedFolder {
+  folder: string;
+  owner: string;
+}
+
+export interface FolderFailure {
+  folder: string;
+  message: string;
+}
+
+const statusLabel = (status: VersionStatus, dryRun: boolean) => {
+  switch (status) {
+    case 'current':
+      return 'Current';
+    case 'newer':
+      return 'Newer';
+    case 'kept':
+      return 'Kept';
+    case 'old':
+      return 'Already old';
+    case 'tagged':
+      return dryRun ? 'Would tag' : 'Newly tagged';
+    case 'restored':
+      return dryRun ? 'Would restore' : 'Restored';
+    case 'unrecognised':
+      return 'Unrecognised';
+  }
+};
+
+/** The keys that failed in every folder. */
+export const keyFailures = (reports: CleanupReport[]) => reports.flatMap((r) => r.versions.flatMap((v) => v.failures ?? []));
+
+export const describeKeyFailure = (failure: KeyFailure) => `${failure.key}: ${failure.name}: ${failure.message}`;
+
+/** The values to publish as action outputs, combining the reports of every folder. */
+export const reportOutputs = (reports: CleanupReport[], failures: FolderFailure[], locked: LockedFolder[]) => {
+  const versions = reports.flatMap((r) => r.versions);
+  const tagged = versions.filter((v) => v.status === 'tagged');
+  const restored = versions.filter((v) => v.status === 'restored');
+  const unrecognised = versions.filter((v) => v.status === 'unrecognised');
+  const skipped = versions.filter((v) => v.status !== 'tagged' && v.status !== 'restored' && v.status !== 'unrecognised');
+  return {
+    'current-version': reports.length === 1 ? reports[0].currentVersion : '',
+    'current-versions': Object.fromEntries(reports.map((r) => [ r.folder, r.currentVersion ])),
+    'failed-folders': failures.map((f) => f.folder),
+    'locked-folders': locked.map((l) => l.folder),
+    'failed-keys': keyFailures(reports),
+    'tagged': tagged.map((v) => v.prefix),
+    'skipped': skipped.map((v) => v.prefix),
+    'restored': restored.map((v) => v.prefix),
+    'unrecognised': unrecognised.map((v) => v.prefix),
+    'tagged-objects': tagged.reduce((acc, v) => acc + (v.objects ?? 0), 0),
+    'tagged-bytes': tagged.reduce((acc, v) => acc + (v.bytes ?? 0), 0),
+  };
+};
+
+/** The rows of the job summary table, the first row is the header. */
+export const reportTable = (report: CleanupReport): string[][] => [
+  [ 'Version', 'Status', 'Objects', 'Bytes', 'Size', 'Reason' ],
+  ...report.versions.map((v) => [
+    v.version,
+    statusLabel(v.status, report.dryRun),
+    v.objects?.toString() ?? '',
+    v.bytes?.toString() ?? '',
+    v.size ? formatBytes(v.size.bytes) : '',
+    v.reason ?? ''
+  ])
+];
@@ -0,0 +1,49 @@
+import { expect, test, describe } from '@jest/globals';
+import { isInGracePeriod, isKeptByAge, isKeptByCount } from './retention';
+
+describe('isKeptByCount', () => {
+  test('keeps nothing when count is 0', () => {
+    expect(isKeptByCount({ keepCount: 0, keepDays: 0, gracePeriodMinutes: 0 }, 0)).toBe(false);
+  });
+
+  test('keeps the most recent versions', () => {
+    const policy = { keepCount: 2, keepDays: 0, gracePeriodMinutes: 0 };
+    expect(isKeptByCount(policy, 0)).toBe(true);
+    expect(isKeptByCount(policy, 1)).toBe(true);
+    expect(isKeptByCount(policy, 2)).toBe(false);
+  });
+});
+
+describe('isKeptByAge', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  test('keeps nothing when days is 0', () => {
+    expect(isKeptByAge({ keepCount: 0, keepDays: 0, gracePeriodMinutes: 0 }, now, now)).toBe(false);
+  });
+
+  test('keeps versions published within the window', () => {
+    const policy = { keepCount: 0, keepDays: 7, gracePeriodMinutes: 0 };
+    expect(isKeptByAge(policy, new Date('2026-10-19T11:00:00.000Z'), now)).toBe(true);
+    expect(isKeptByAge(policy, new Date('2026-10-12T12:00:01.000Z'), now)).toBe(true);
+    expect(isKeptByAge(policy, new Date('2026-10-12T12:00:00.000Z'), now)).toBe(false);
+    expect(isKeptByAge(policy, new Date('2025-10-19T12:00:00.000Z'), now)).toBe(false);
+  });
+
+  test('does not keep versions with an unknown publish date', () => {
+    expect(isKeptByAge({ keepCount: 0, keepDays: 7, gracePeriodMinutes: 0 }, undefined, now)).toBe(false);
+  });
+});
+
+describe('isInGracePeriod', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  test('waits for nothing when the grace period is 0', () => {
+    expect(isInGracePeriod({ keepCount: 0, keepDays: 0, gracePeriodMinutes: 0 }, now, now)).toBe(false);
+  });
+
+  test('waits for the grace period after the pointer moved', () => {
+    const policy = { keepCount: 0, keepDays: 0, gracePeriodMinutes: 60 };
+    expect(isInGracePeriod(policy, new Date('2026-10-19T11:00:01.000Z'), now)).toBe(true);
+    expect(isInGracePeriod(policy, new Date('2026-10-19T11:00:00.000Z'), now)).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+export interface RetentionPolicy {
+  /** The number of most recent superseded versions to keep, 0 keeps none. */
+  keepCount: number;
+  /** Keep superseded versions published within this many days, 0 keeps none. */
+  keepDays: number;
+  /** Leave versions untagged for this many minutes after the pointer moved past them, 0 waits for none. */
+  gracePeriodMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Check if a superseded version is kept because it is one of the most recent. */
+export const isKeptByCount = (policy: RetentionPolicy, recency: number) => {
+  return recency < policy.keepCount;
+};
+
+/** Check if a superseded version is kept because it was published recently. */
+export const isKeptByAge = (policy: RetentionPolicy, publishedAt: Date | undefined, now: Date) => {
+  return policy.keepDays > 0 && publishedAt !== undefined && now.getTime() - publishedAt.getTime() < policy.keepDays * DAY_MS;
+};
+
+/** Check if the versions the pointer moved past at a time are still in the grace period. */
+export const isInGracePeriod = (policy: RetentionPolicy, supersededAt: Date, now: Date) => {
+  return policy.gracePeriodMinutes > 0 && now.getTime() - supersededAt.getTime() < policy.gracePeriodMinutes * MINUTE_MS;
+};
@@ -0,0 +1,96 @@
+import { expect, test, describe } from '@jest/globals';
+import { backoffDelay, isRetryableError, isThrottlingError, withRetry } from './retry';
+
+const s3Error = (name: string, httpStatusCode: number) => Object.assign(new Error(name), { name, $metadata: { httpStatusCode }});
+
+const options = { retries: 3, baseDelayMs: 1, maxDelayMs: 4 };
+
+describe('isThrottlingError', () => {
+  test('recognises throttling errors', () => {
+    expect(isThrottlingError(s3Error('SlowDown', 503))).toBe(true);
+    expect(isThrottlingError(s3Error('TooManyRequestsException', 429))).toBe(true);
+    expect(isThrottlingError(s3Error('Unknown', 503))).toBe(true);
+  });
+
+  test('does not treat other errors as throttling', () => {
+    expect(isThrottlingError(s3Error('AccessDenied', 403))).toBe(false);
+    expect(isThrottlingError(s3Error('InternalError', 500))).toBe(false);
+    expect(isThrottlingError(new Error('failed'))).toBe(false);
+    expect(isThrottlingError('failed')).toBe(false);
+  });
+});
+
+describe('isRetryableError', () => {
+  test('retries throttling, server and network errors', () => {
+    expect(isRetryableError(s3Error('SlowDown', 503))).toBe(true);
+    expect(isRetryableError(s3Error('InternalError', 500))).toBe(true);
+    expect(isRetryableError(s3Error('Unknown', 502))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true);
+  });
+
+  test('does not retry client errors', () => {
+    expect(isRetryableError(s3Error('AccessDenied', 403))).toBe(false);
+    expect(isRetryableError(s3Error('NoSuchKey', 404))).toBe(false);
+    expect(isRetryableError(new Error('failed'))).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  test('doubles the ceiling each attempt up to the max', () => {
+    const opts = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    const max = () => 0.9999;
+    expect(backoffDelay(0, opts, max)).toBe(99);
+    expect(backoffDelay(1, opts, max)).toBe(199);
+    expect(backoffDelay(2, opts, max)).toBe(399);
+    expect(backoffDelay(4, opts, max)).toBe(999);
+    expect(backoffDelay(10, opts, max)).toBe(999);
+  });
+
+  test('is jittered', () => {
+    const opts = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(backoffDelay(2, opts, () => 0)).toBe(0);
+    expect(backoffDelay(2, opts, () => 0.5)).toBe(200);
+  });
+});
+
+describe('withRetry', () => {
+  test('returns the result of a task that succeeds', async () => {
+    await expect(withRetry(async () => 1, options)).resolves.toBe(1);
+  });
+
+  test('retries retryable errors until the task succeeds', async () => {
+    let calls = 0;
+    const attempts: number[] = [];
+    const task = async () => {
+      calls++;
+      if (calls < 3) {
+        throw s3Error('SlowDown', 503);
+      }
+      return calls;
+    };
+    await expect(withRetry(task, { ...options, onRetry: (_err, attempt) => attempts.push(attempt) })).resolves.toBe(3);
+    expect(attempts).toEqual([ 1, 2 ]);
+  });
+
+  test('gives up after the retries are used', async () => {
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      throw s3Error('SlowDown', 503);
+    };
+    await expect(withRetry(task, options)).rejects.toThrow('SlowDown');
+    expect(calls).toBe(4);
+  });
+
+  test('does not retry other errors', async () => {
+    let calls = 0;
+    const task = async () => {
+      calls++;
+      throw s3Error('AccessDenied', 403);
+    };
+    await expect(withRetry(task, options)).rejects.toThrow('AccessDenied');
+    expect(calls).toBe(1);
+  });
+});
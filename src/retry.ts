@@ -0,0 +1,73 @@
+export interface RetryOptions {
+  /** The number of times to retry after the first attempt fails. */
+  retries: number;
+  /** The delay before the first retry, doubled for each retry after. */
+  baseDelayMs: number;
+  /** The largest delay between retries. */
+  maxDelayMs: number;
+  /** Called before waiting to retry. */
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void;
+}
+
+const THROTTLING_ERRORS = [ 'SlowDown', 'Throttling', 'ThrottlingException', 'RequestLimitExceeded', 'TooManyRequestsException', 'RequestThrottled' ];
+const TRANSIENT_ERRORS = [ 'InternalError', 'ServiceUnavailable', 'RequestTimeout', 'RequestTimeoutException', 'TimeoutError' ];
+const NETWORK_ERRORS = [ 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN' ];
+
+const errorName = (err: unknown) => err instanceof Error ? err.name : undefined;
+
+const errorCode = (err: unknown) => {
+  if (typeof err === 'object' && err !== null && 'code' in err && typeof err.code === 'string') {
+    return err.code;
+  }
+};
+
+const errorStatus = (err: unknown) => {
+  if (typeof err === 'object' && err !== null && '$metadata' in err && typeof err.$metadata === 'object' && err.$metadata !== null &&
+    'httpStatusCode' in err.$metadata && typeof err.$metadata.httpStatusCode === 'number') {
+    return err.$metadata.httpStatusCode;
+  }
+};
+
+/** Check if an error means S3 is asking us to slow down. */
+export const isThrottlingError = (err: unknown) => {
+  const name = errorName(err);
+  const status = errorStatus(err);
+  return (name !== undefined && THROTTLING_ERRORS.includes(name)) || status === 429 || status === 503;
+};
+
+/** Check if an error is likely to go away if the request is retried. */
+export const isRetryableError = (err: unknown) => {
+  if (isThrottlingError(err)) {
+    return true;
+  }
+  const name = errorName(err);
+  const code = errorCode(err);
+  const status = errorStatus(err);
+  return (name !== undefined && TRANSIENT_ERRORS.includes(name)) ||
+    (code !== undefined && NETWORK_ERRORS.includes(code)) ||
+    status === 500 || status === 502 || status === 504;
+};
+
+/** The delay before a retry, a random amount up to the exponential backoff so that retries spread out. */
+export const backoffDelay = (attempt: number, options: RetryOptions, random: () => number = Math.random) => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+};
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Run a task, retrying it with jittered exponential backoff while it fails with retryable errors. */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= options.retries || !isRetryableError(err)) {
+        throw err;
+      }
+      const delayMs = backoffDelay(attempt, options);
+      options.onRetry?.(err, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
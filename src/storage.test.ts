@@ -0,0 +1,97 @@
+import { expect, test, describe } from '@jest/globals';
+import { addFile, addNoncurrent, emptySize, formatBytes, storageLines, storageOutputs, storageSummary } from './storage';
+import { CleanupReport } from './report';
+
+describe('addFile', () => {
+  test('counts every file and keeps the largest first', () => {
+    const size = emptySize();
+    for (const [ key, bytes ] of [[ 'a', 5 ], [ 'b', 50 ], [ 'c', 1 ], [ 'd', 20 ], [ 'e', 20 ]] as const) {
+      addFile(size, { key, bytes }, 3);
+    }
+    expect(size.objects).toBe(5);
+    expect(size.bytes).toBe(96);
+    expect(size.largest).toEqual([{ key: 'b', bytes: 50 }, { key: 'd', bytes: 20 }, { key: 'e', bytes: 20 }]);
+  });
+
+  test('keeps no files when the count is 0', () => {
+    const size = emptySize();
+    addFile(size, { key: 'a', bytes: 5 }, 0);
+    expect(size).toEqual({ objects: 1, bytes: 5, largest: [] });
+  });
+});
+
+describe('addNoncurrent', () => {
+  test('counts noncurrent versions apart from the current objects', () => {
+    const size = emptySize();
+    addFile(size, { key: 'a', bytes: 5 }, 1);
+    addNoncurrent(size, 5);
+    addNoncurrent(size, 3);
+    expect(size).toEqual({ objects: 1, bytes: 5, largest: [{ key: 'a', bytes: 5 }], noncurrentObjects: 2, noncurrentBytes: 8 });
+  });
+});
+
+describe('storageSummary', () => {
+  const report: CleanupReport = {
+    folder: 'pr-123',
+    currentVersion: 'run-13-2',
+    dryRun: false,
+    versions: [
+      { version: 'run-12-3', prefix: 'pr-123/run-12-3/', status: 'old', size: { objects: 2, bytes: 30, largest: [{ key: 'pr-123/run-12-3/a', bytes: 20 }] }},
+      { version: 'run-13-1', prefix: 'pr-123/run-13-1/', status: 'tagged', objects: 1, bytes: 10, size: { objects: 3, bytes: 100, largest: [
+        { key: 'pr-123/run-13-1/b', bytes: 90 }, { key: 'pr-123/run-13-1/a', bytes: 8 }
+      ] }},
+      { version: 'run-13-2', prefix: 'pr-123/run-13-2/', status: 'current' }
+    ]
+  };
+
+  test('sums the listed versions and reclaims the newly tagged ones', () => {
+    expect(storageSummary([ report ], 2)).toEqual({
+      objects: 5,
+      bytes: 130,
+      reclaimableObjects: 3,
+      reclaimableBytes: 100,
+      noncurrentObjects: 0,
+      noncurrentBytes: 0,
+      largest: [{ key: 'pr-123/run-13-1/b', bytes: 90 }, { key: 'pr-123/run-12-3/a', bytes: 20 }]
+    });
+  });
+
+  test('publishes the size of each listed version', () => {
+    const outputs = storageOutputs([ report ], storageSummary([ report ], 1));
+    expect(outputs['version-sizes']).toEqual({
+      'pr-123/run-12-3/': { objects: 2, bytes: 30 },
+      'pr-123/run-13-1/': { objects: 3, bytes: 100 }
+    });
+    expect(outputs['reclaimable-bytes']).toBe(100);
+    expect(outputs['largest-files']).toEqual([{ key: 'pr-123/run-13-1/b', bytes: 90 }]);
+  });
+
+  test('logs the reclaimable storage and largest files', () => {
+    expect(storageLines(storageSummary([ report ], 1))).toEqual([
+      'Storage reported: 130 bytes in 5 objects',
+      'Reclaimable once the lifecycle rule expires the newly tagged versions: 100 bytes in 3 objects',
+      'Largest files:',
+      '  90 bytes pr-123/run-13-1/b'
+    ]);
+  });
+
+  test('reports the noncurrent versions of a versioned bucket', () => {
+    const size = { objects: 2, bytes: 30, largest: [], noncurrentObjects: 2, noncurrentBytes: 1536 };
+    const versioned: CleanupReport = { ...report, versions: [{ version: 'run-12-3', prefix: 'pr-123/run-12-3/', status: 'old', size }] };
+    const summary = storageSummary([ versioned ], 0);
+    expect(storageLines(summary)).toContain('Noncurrent versions: 1.5 KiB in 2 objects');
+    expect(storageOutputs([ versioned ], summary)['version-sizes']).toEqual({
+      'pr-123/run-12-3/': { objects: 2, bytes: 30, noncurrentObjects: 2, noncurrentBytes: 1536 }
+    });
+  });
+});
+
+describe('formatBytes', () => {
+  test('uses binary units', () => {
+    expect(formatBytes(0)).toBe('0 bytes');
+    expect(formatBytes(1023)).toBe('1023 bytes');
+    expect(formatBytes(1536)).toBe('1.5 KiB');
+    expect(formatBytes(5 * 1024 ** 3)).toBe('5.0 GiB');
+    expect(formatBytes(2048 * 1024 ** 5)).toBe('2048.0 PiB');
+  });
+});
@@ -0,0 +1,100 @@
+import { CleanupReport } from './report';
+
+export interface FileSize {
+  key: string;
+  bytes: number;
+}
+
+/** The size of everything in a prefix, which may be more than the objects a run changed. */
+export interface PrefixSize {
+  objects: number;
+  bytes: number;
+  /** The largest files in the prefix, largest first. */
+  largest: FileSize[];
+  /** The noncurrent versions in the prefix, when the versions of a versioned bucket were listed. */
+  noncurrentObjects?: number;
+  noncurrentBytes?: number;
+}
+
+export interface StorageSummary {
+  objects: number;
+  bytes: number;
+  /** The size of the versions newly tagged by this run, which the lifecycle rule will expire. */
+  reclaimableObjects: number;
+  reclaimableBytes: number;
+  noncurrentObjects: number;
+  noncurrentBytes: number;
+  largest: FileSize[];
+}
+
+export const emptySize = (): PrefixSize => ({ objects: 0, bytes: 0, largest: [] });
+
+/** Count a file in a size, keeping only the `count` largest files. */
+export const addFile = (size: PrefixSize, file: FileSize, count: number) => {
+  size.objects++;
+  size.bytes += file.bytes;
+  const i = size.largest.findIndex((f) => f.bytes < file.bytes);
+  if (i !== -1) {
+    size.largest.splice(i, 0, file);
+  } else {
+    size.largest.push(file);
+  }
+  size.largest.splice(count);
+};
+
+/** Count a noncurrent version in a size. */
+export const addNoncurrent = (size: PrefixSize, bytes: number) => {
+  size.noncurrentObjects = (size.noncurrentObjects ?? 0) + 1;
+  size.noncurrentBytes = (size.noncurrentBytes ?? 0) + bytes;
+};
+
+/** Sum the sizes reported for every version, and the part of it that will be reclaimed. */
+export const storageSummary = (reports: CleanupReport[], count: number): StorageSummary => {
+  const versions = reports.flatMap((r) => r.versions);
+  const sized = versions.filter((v) => v.size !== undefined);
+  const reclaimable = sized.filter((v) => v.status === 'tagged');
+  return {
+    objects: sized.reduce((acc, v) => acc + (v.size?.objects ?? 0), 0),
+    bytes: sized.reduce((acc, v) => acc + (v.size?.bytes ?? 0), 0),
+    reclaimableObjects: reclaimable.reduce((acc, v) => acc + (v.size?.objects ?? 0), 0),
+    reclaimableBytes: reclaimable.reduce((acc, v) => acc + (v.size?.bytes ?? 0), 0),
+    noncurrentObjects: sized.reduce((acc, v) => acc + (v.size?.noncurrentObjects ?? 0), 0),
+    noncurrentBytes: sized.reduce((acc, v) => acc + (v.size?.noncurrentBytes ?? 0), 0),
+    largest: sized.flatMap((v) => v.size?.largest ?? []).sort((a, b) => b.bytes - a.bytes).slice(0, count)
+  };
+};
+
+/** Format a number of bytes with a binary unit, such as 1.5 MiB. */
+export const formatBytes = (bytes: number) => {
+  const units = [ 'bytes', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB' ];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes} bytes` : `${value.toFixed(1)} ${units[unit]}`;
+};
+
+/** The log lines describing the storage used and reclaimed. */
+export const storageLines = (summary: StorageSummary) => [
+  `Storage reported: ${formatBytes(summary.bytes)} in ${summary.objects} objects`,
+  `Reclaimable once the lifecycle rule expires the newly tagged versions: ${formatBytes(summary.reclaimableBytes)} in ${summary.reclaimableObjects} objects`,
+  ...(summary.noncurrentObjects > 0 ? [ `Noncurrent versions: ${formatBytes(summary.noncurrentBytes)} in ${summary.noncurrentObjects} objects` ] : []),
+  ...(summary.largest.length > 0 ? [ 'Largest files:' ] : []),
+  ...summary.largest.map((f) => `  ${formatBytes(f.bytes)} ${f.key}`)
+];
+
+/** The values to publish as outputs. */
+export const storageOutputs = (reports: CleanupReport[], summary: StorageSummary) => ({
+  'version-sizes': Object.fromEntries(reports.flatMap((r) => r.versions)
+    .filter((v) => v.size !== undefined)
+    .map((v) => [ v.prefix, {
+      objects: v.size?.objects,
+      bytes: v.size?.bytes,
+      ...(v.size?.noncurrentObjects !== undefined ? { noncurrentObjects: v.size.noncurrentObjects, noncurrentBytes: v.size.noncurrentBytes } : {})
+    }])),
+  'reclaimable-objects': summary.reclaimableObjects,
+  'reclaimable-bytes': summary.reclaimableBytes,
+  'largest-files': summary.largest
+});
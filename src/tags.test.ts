@@ -0,0 +1,59 @@
+import { expect, test, describe } from '@jest/globals';
+import { encodeTagging, hasOldTag, withOldTag, withoutOldTag } from './tags';
+
+const OLD = { key: 'old', value: 'true' };
+
+describe('hasOldTag', () => {
+  test('finds the tag', () => {
+    expect(hasOldTag([{ Key: 'team', Value: 'docs' }, { Key: 'old', Value: 'true' }], OLD)).toBe(true);
+  });
+
+  test('requires the key and value to match', () => {
+    expect(hasOldTag([], OLD)).toBe(false);
+    expect(hasOldTag([{ Key: 'old', Value: 'false' }], OLD)).toBe(false);
+    expect(hasOldTag([{ Key: 'expired', Value: 'true' }], OLD)).toBe(false);
+    expect(hasOldTag([{ Key: 'expired', Value: 'yes' }], { key: 'expired', value: 'yes' })).toBe(true);
+  });
+});
+
+describe('withOldTag', () => {
+  test('keeps existing tags', () => {
+    expect(withOldTag([{ Key: 'team', Value: 'docs' }], OLD)).toEqual([
+      { Key: 'team', Value: 'docs' },
+      { Key: 'old', Value: 'true' }
+    ]);
+  });
+
+  test('replaces a tag with the same key', () => {
+    expect(withOldTag([{ Key: 'old', Value: 'false' }, { Key: 'team', Value: 'docs' }], OLD)).toEqual([
+      { Key: 'team', Value: 'docs' },
+      { Key: 'old', Value: 'true' }
+    ]);
+  });
+
+  test('fails when there would be more than 10 tags', () => {
+    const tags = Array.from({ length: 10 }, (_, i) => ({ Key: `tag-${i}`, Value: 'x' }));
+    expect(() => withOldTag(tags, OLD)).toThrow('would exceed the limit of 10 tags');
+    expect(withOldTag(tags.slice(1), OLD)).toHaveLength(10);
+    expect(withOldTag([ ...tags.slice(1), { Key: 'old', Value: 'false' }], OLD)).toHaveLength(10);
+  });
+});
+
+describe('withoutOldTag', () => {
+  test('removes only the old tag', () => {
+    expect(withoutOldTag([{ Key: 'team', Value: 'docs' }, { Key: 'old', Value: 'true' }], OLD)).toEqual([
+      { Key: 'team', Value: 'docs' }
+    ]);
+  });
+});
+
+describe('encodeTagging', () => {
+  test('url encodes the tags', () => {
+    expect(encodeTagging([{ Key: 'old', Value: 'true' }])).toBe('old=true');
+    expect(encodeTagging([{ Key: 'team', Value: 'docs & site' }, { Key: 'cost/centre', Value: '1' }])).toBe('team=docs%20%26%20site&cost%2Fcentre=1');
+  });
+
+  test('is undefined without tags', () => {
+    expect(encodeTagging([])).toBeUndefined();
+  });
+});
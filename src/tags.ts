@@ -0,0 +1,36 @@
+import { Tag } from '@aws-sdk/client-s3';
+
+/** The most tags S3 allows on an object. */
+export const MAX_TAGS = 10;
+
+export interface OldTag {
+  key: string;
+  value: string;
+}
+
+/** Check if a tag set contains the old tag. */
+export const hasOldTag = (tags: Tag[], tag: OldTag) => {
+  return tags.some((t) => t.Key === tag.key && t.Value === tag.value);
+};
+
+/** Add the old tag to a tag set, replacing any tag with the same key. */
+export const withOldTag = (tags: Tag[], tag: OldTag): Tag[] => {
+  const merged = [ ...withoutOldTag(tags, tag), { Key: tag.key, Value: tag.value }];
+  if (merged.length > MAX_TAGS) {
+    throw new Error(`Adding the tag ${tag.key} would exceed the limit of ${MAX_TAGS} tags, existing tags: ${tags.map((t) => t.Key).join(', ')}`);
+  }
+  return merged;
+};
+
+/** Remove the old tag from a tag set, leaving all other tags. */
+export const withoutOldTag = (tags: Tag[], tag: OldTag): Tag[] => {
+  return tags.filter((t) => t.Key !== tag.key);
+};
+
+/** Encode a tag set for the Tagging parameter, undefined when there are no tags. */
+export const encodeTagging = (tags: Tag[]) => {
+  if (tags.length === 0) {
+    return undefined;
+  }
+  return tags.map((t) => `${encodeURIComponent(t.Key ?? '')}=${encodeURIComponent(t.Value ?? '')}`).join('&');
+};
@@ -1,5 +1,5 @@
 import { expect, test } from '@jest/globals';
-import { isValidGeneralPurposeBucketName, isValidFolder } from './validation.js';
+import { isValidGeneralPurposeBucketName, isValidFolder, isValidKeyInFolder, isValidTagKey, isValidTagValue } from './validation.js';
 
 test('test isValidGeneralPurposeBucketName', () => {
   // Bucket names must be between 3 (min) and 63 (max) characters long.
@@ -81,4 +81,43 @@ test('test isValidFolder', () => {
 
   // Invalid - only slash
   expect(isValidFolder('/')).toBe(false);
+});
+
+test('test isValidKeyInFolder', () => {
+  expect(isValidKeyInFolder('index.html')).toBe(true);
+  expect(isValidKeyInFolder('latest/index.html')).toBe(true);
+  expect(isValidKeyInFolder('.cleanup/log.jsonl')).toBe(true);
+  expect(isValidKeyInFolder('..hidden')).toBe(true);
+
+  // Invalid - outside the folder
+  expect(isValidKeyInFolder('')).toBe(false);
+  expect(isValidKeyInFolder('/index.html')).toBe(false);
+  expect(isValidKeyInFolder('../main/index.html')).toBe(false);
+  expect(isValidKeyInFolder('latest/../../main/index.html')).toBe(false);
+
+  // Invalid - the lock and markers
+  expect(isValidKeyInFolder('.cleanup/lock')).toBe(false);
+  expect(isValidKeyInFolder('.cleanup/old/run-12-3')).toBe(false);
+  expect(isValidKeyInFolder('.cleanup/partial/run-12-3')).toBe(false);
+});
+
+test('test isValidTagKey', () => {
+  expect(isValidTagKey('old')).toBe(true);
+  expect(isValidTagKey('cleanup:old')).toBe(true);
+  expect(isValidTagKey('Cost Centre')).toBe(true);
+  expect(isValidTagKey('a'.repeat(128))).toBe(true);
+
+  expect(isValidTagKey('')).toBe(false);
+  expect(isValidTagKey('a'.repeat(129))).toBe(false);
+  expect(isValidTagKey('old&new')).toBe(false);
+  expect(isValidTagKey('aws:old')).toBe(false);
+});
+
+test('test isValidTagValue', () => {
+  expect(isValidTagValue('true')).toBe(true);
+  expect(isValidTagValue('')).toBe(true);
+  expect(isValidTagValue('a'.repeat(256))).toBe(true);
+
+  expect(isValidTagValue('a'.repeat(257))).toBe(false);
+  expect(isValidTagValue('yes?')).toBe(false);
 });
\ No newline at end of file
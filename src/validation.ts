@@ -33,4 +33,23 @@ export const isValidGeneralPurposeBucketName = (bucket: string) => {
 
 export const isValidFolder = (folder: string) => {
   return /^[a-z0-9.-]+$/.test(folder);
+};
+
+/** Check a key is within a folder and is not the lock or a marker, which the action keeps for itself */
+export const isValidKeyInFolder = (key: string) => {
+  return key !== '' && !key.startsWith('/') && !key.split('/').includes('..') &&
+    key !== '.cleanup/lock' && !key.startsWith('.cleanup/old/') && !key.startsWith('.cleanup/partial/');
+};
+
+/** Check S3's rules for tag keys */
+export const isValidTagKey = (key: string) => {
+  // Tag keys can be up to 128 characters of letters, numbers, spaces and + - = . _ : / @
+  // and must not start with the reserved aws: prefix.
+  return /^[\p{L}\p{N} +\-=._:/@]{1,128}$/u.test(key) && !/^aws:/i.test(key);
+};
+
+/** Check S3's rules for tag values */
+export const isValidTagValue = (value: string) => {
+  // Tag values can be up to 256 characters of letters, numbers, spaces and + - = . _ : / @
+  return /^[\p{L}\p{N} +\-=._:/@]{0,256}$/u.test(value);
 };
\ No newline at end of file
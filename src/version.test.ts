@@ -1,5 +1,5 @@
 import { expect, test, describe } from '@jest/globals';
-import { extractVersion, compareVersions, Version } from './version';
+import { extractVersion, compareVersions, Version, semverScheme, isoDateScheme, patternScheme, VersionScheme } from './version';
 
 describe('extractVersion', () => {
   test('extracts valid version from string', () => {
@@ -160,3 +160,69 @@ describe('compareVersions', () => {
     ]);
   });
 });
+
+const sortWith = <V extends { version: string }>(scheme: VersionScheme<V>, versions: string[]) => {
+  const parsed = versions.map((v) => scheme.extract(v)).filter((v) => v !== undefined);
+  return parsed.sort((a, b) => scheme.compare(a, b)).map((v) => v.version);
+};
+
+describe('semverScheme', () => {
+  test('extracts versions with and without a prerelease', () => {
+    expect(semverScheme.extract('8.1.2')).toEqual({ version: '8.1.2', release: [ 8, 1, 2 ], prerelease: [] });
+    expect(semverScheme.extract('v8.1.2-rc.1')).toEqual({ version: 'v8.1.2-rc.1', release: [ 8, 1, 2 ], prerelease: [ 'rc', 1 ] });
+    expect(semverScheme.extract('8.1.2+build.5')).toEqual({ version: '8.1.2+build.5', release: [ 8, 1, 2 ], prerelease: [] });
+  });
+
+  test('returns undefined for other names', () => {
+    expect(semverScheme.extract('7.x')).toBeUndefined();
+    expect(semverScheme.extract('8.1')).toBeUndefined();
+    expect(semverScheme.extract('08.1.2')).toBeUndefined();
+    expect(semverScheme.extract('run-1-1')).toBeUndefined();
+    expect(semverScheme.extract(812)).toBeUndefined();
+  });
+
+  test('orders releases numerically and prereleases before their release', () => {
+    expect(sortWith(semverScheme, [
+      '1.0.0', '1.0.0-rc.1', '1.0.0-beta.11', '1.0.0-beta.2', '1.0.0-beta', '1.0.0-alpha.beta', '1.0.0-alpha.1', '1.0.0-alpha', '0.10.0', '0.9.0'
+    ])).toEqual([
+      '0.9.0', '0.10.0', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0'
+    ]);
+  });
+});
+
+describe('isoDateScheme', () => {
+  test('extracts dates with optional times', () => {
+    expect(isoDateScheme.extract('2026-10-19')).toEqual({ version: '2026-10-19', time: Date.UTC(2026, 9, 19) });
+    expect(isoDateScheme.extract('2026-10-19T0815')).toEqual({ version: '2026-10-19T0815', time: Date.UTC(2026, 9, 19, 8, 15) });
+    expect(isoDateScheme.extract('2026-10-19T08:15:30Z')).toEqual({ version: '2026-10-19T08:15:30Z', time: Date.UTC(2026, 9, 19, 8, 15, 30) });
+  });
+
+  test('returns undefined for invalid dates', () => {
+    expect(isoDateScheme.extract('2026-02-30')).toBeUndefined();
+    expect(isoDateScheme.extract('2026-10-19T2500')).toBeUndefined();
+    expect(isoDateScheme.extract('2026-10')).toBeUndefined();
+    expect(isoDateScheme.extract('run-1-1')).toBeUndefined();
+  });
+
+  test('orders by time', () => {
+    expect(sortWith(isoDateScheme, [ '2026-10-19T0815', '2026-10-19', '2025-12-31T2359' ])).toEqual([ '2025-12-31T2359', '2026-10-19', '2026-10-19T0815' ]);
+  });
+});
+
+describe('patternScheme', () => {
+  test('requires a named group', () => {
+    expect(() => patternScheme('^(\\d+)$')).toThrow('named capture group');
+  });
+
+  test('extracts only whole matches', () => {
+    const scheme = patternScheme('build-(?<build>\\d+)');
+    expect(scheme.extract('build-12')).toEqual({ version: 'build-12', groups: [ 12 ] });
+    expect(scheme.extract('build-12-old')).toBeUndefined();
+    expect(scheme.extract('old-build-12')).toBeUndefined();
+  });
+
+  test('orders by the groups in order', () => {
+    const scheme = patternScheme('^(?<major>\\d+)\\.(?<minor>\\d+|x)$');
+    expect(sortWith(scheme, [ '8.x', '7.x', '7.10', '7.9', 'main' ])).toEqual([ '7.9', '7.10', '7.x', '8.x' ]);
+  });
+});
\ No newline at end of file
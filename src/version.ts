@@ -24,4 +24,129 @@ export const compareVersions = (a: Version, b: Version) => {
   } else {
     return d;
   }
+};
+
+/**
+ * How version prefixes are named and ordered. Compare is a method so that a
+ * scheme for a more specific version type can be used as a general one.
+ */
+export interface VersionScheme<V extends { version: string } = { version: string }> {
+  extract(s: unknown): V | undefined;
+  compare(a: V, b: V): number;
+}
+
+export const runAttemptScheme: VersionScheme<Version> = {
+  extract: extractVersion,
+  compare: compareVersions
+};
+
+type Identifier = number | string;
+
+/** Numbers order before strings, as in semver prerelease identifiers. */
+const compareIdentifiers = (a: Identifier, b: Identifier) => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  } else if (typeof a === 'number') {
+    return -1;
+  } else if (typeof b === 'number') {
+    return 1;
+  } else {
+    return a < b ? -1 : Number(a > b);
+  }
+};
+
+const compareIdentifierLists = (a: Identifier[], b: Identifier[]) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const d = compareIdentifiers(a[i], b[i]);
+    if (d !== 0) {
+      return d;
+    }
+  }
+  return a.length - b.length;
+};
+
+const toIdentifier = (s: string): Identifier => /^\d+$/.test(s) ? parseInt(s, 10) : s;
+
+export interface SemverVersion {
+  version: string;
+  release: number[];
+  prerelease: Identifier[];
+}
+
+export const semverScheme: VersionScheme<SemverVersion> = {
+  extract: (s) => {
+    if (typeof s === 'string') {
+      const m = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/.exec(s);
+      if (m != null) {
+        return {
+          version: s,
+          release: [ m[1], m[2], m[3] ].map((n) => parseInt(n, 10)),
+          prerelease: m[4]?.split('.').map(toIdentifier) ?? []
+        };
+      }
+    }
+  },
+  compare: (a, b) => {
+    const d = compareIdentifierLists(a.release, b.release);
+    if (d !== 0) {
+      return d;
+    }
+    // a prerelease is lower than its release
+    if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+      return b.prerelease.length - a.prerelease.length;
+    }
+    return compareIdentifierLists(a.prerelease, b.prerelease);
+  }
+};
+
+export interface DateVersion {
+  version: string;
+  time: number;
+}
+
+export const isoDateScheme: VersionScheme<DateVersion> = {
+  extract: (s) => {
+    if (typeof s === 'string') {
+      // dates with an optional time, which may leave out the colons and seconds: 2026-10-19, 2026-10-19T0815, 2026-10-19T08:15:30Z
+      const m = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):?(\d{2})(?::?(\d{2}))?Z?)?$/.exec(s);
+      if (m != null) {
+        const [ year, month, day, hour, minute, second ] = m.slice(1).map((n) => n === undefined ? 0 : parseInt(n, 10));
+        const time = Date.UTC(year, month - 1, day, hour, minute, second);
+        const date = new Date(time);
+        // reject dates that roll over, such as 2026-02-30
+        if (date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60) {
+          return { version: s, time };
+        }
+      }
+    }
+  },
+  compare: (a, b) => a.time - b.time
+};
+
+export interface PatternVersion {
+  version: string;
+  groups: Identifier[];
+}
+
+/**
+ * A scheme from a regular expression with named capture groups. Versions are
+ * ordered by the groups in the order they appear in the pattern, comparing
+ * numbers numerically and anything else as a string.
+ */
+export const patternScheme = (pattern: string): VersionScheme<PatternVersion> => {
+  const regex = new RegExp(pattern);
+  if (!/\(\?<[A-Za-z_$][\w$]*>/.test(pattern)) {
+    throw new Error(`Version pattern must have at least one named capture group, got ${pattern}`);
+  }
+  return {
+    extract: (s) => {
+      if (typeof s === 'string') {
+        const m = regex.exec(s);
+        if (m?.groups != null && m[0] === s) {
+          return { version: s, groups: Object.values(m.groups).map((g) => toIdentifier(g ?? '')) };
+        }
+      }
+    },
+    compare: (a, b) => compareIdentifierLists(a.groups, b.groups)
+  };
 };
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { expect, test, describe } from '@jest/globals';
+import { describeNoncurrent, isNoncurrentVersions, isVersioned, versionLeftBehind } from './versioning';
+
+describe('isNoncurrentVersions', () => {
+  test('accepts tag, delete and keep', () => {
+    expect(isNoncurrentVersions('tag')).toBe(true);
+    expect(isNoncurrentVersions('delete')).toBe(true);
+    expect(isNoncurrentVersions('keep')).toBe(true);
+    expect(isNoncurrentVersions('expire')).toBe(false);
+  });
+});
+
+describe('describeNoncurrent', () => {
+  test('says what happens to the versions left behind', () => {
+    expect(describeNoncurrent('tag')).toBe('tagged as old');
+    expect(describeNoncurrent('delete')).toBe('deleted');
+    expect(describeNoncurrent('keep')).toBe('kept');
+  });
+});
+
+describe('isVersioned', () => {
+  test('is versioned once versioning has been enabled', () => {
+    expect(isVersioned('Enabled')).toBe(true);
+    expect(isVersioned('Suspended')).toBe(true);
+    expect(isVersioned(undefined)).toBe(false);
+  });
+});
+
+describe('versionLeftBehind', () => {
+  test('is the version that was copied from', () => {
+    expect(versionLeftBehind('3HL4kqtJlcpXroDTDmJ', 'QUpfdndhfd8438MNFDN')).toBe('3HL4kqtJlcpXroDTDmJ');
+  });
+
+  test('is nothing in a bucket that is not versioned', () => {
+    expect(versionLeftBehind(undefined, undefined)).toBeUndefined();
+  });
+
+  test('is nothing when a suspended bucket replaced the null version', () => {
+    expect(versionLeftBehind('null', 'null')).toBeUndefined();
+    expect(versionLeftBehind('3HL4kqtJlcpXroDTDmJ', 'null')).toBe('3HL4kqtJlcpXroDTDmJ');
+  });
+});
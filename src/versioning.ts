@@ -0,0 +1,28 @@
+/** What to do with the version a copy in place leaves behind in a versioned bucket. */
+export type NoncurrentVersions = 'tag' | 'delete' | 'keep';
+
+export const isNoncurrentVersions = (s: string): s is NoncurrentVersions =>
+  s === 'tag' || s === 'delete' || s === 'keep';
+
+/** Checks if a bucket keeps the versions that copies replace, which it does once versioning has been enabled, even if suspended since. */
+export const isVersioned = (status: string | undefined) => status === 'Enabled' || status === 'Suspended';
+
+/**
+ * The version a copy in place left behind as noncurrent, or undefined if there
+ * is none. With versioning suspended a copy replaces the null version, so only
+ * a version written while versioning was enabled is left behind.
+ */
+export const versionLeftBehind = (previous: string | undefined, copied: string | undefined) =>
+  previous !== undefined && previous !== copied ? previous : undefined;
+
+/** Describe what happens to the versions left behind, for logging. */
+export const describeNoncurrent = (noncurrent: NoncurrentVersions) => {
+  switch (noncurrent) {
+    case 'tag':
+      return 'tagged as old';
+    case 'delete':
+      return 'deleted';
+    case 'keep':
+      return 'kept';
+  }
+};